@@ -4,16 +4,141 @@ pragma solidity ^0.8.24;
 import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import {ERC721Enumerable} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
-import {FHE, euint32, euint256, externalEuint32, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    ebool,
+    euint8,
+    euint32,
+    euint64,
+    euint256,
+    eaddress,
+    externalEbool,
+    externalEuint8,
+    externalEuint32,
+    externalEuint64,
+    externalEuint256,
+    externalEaddress
+} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /// @title Hidden Attribute NFT
-/// @notice ERC721 collection storing encrypted numeric attributes for each token.
+/// @notice ERC721 collection storing an encrypted message and typed encrypted attributes for each token.
 /// @dev Uses Zama's FHEVM library to handle encrypted data and access control.
 contract HiddenAttributeNFT is ERC721Enumerable, Ownable, ZamaEthereumConfig {
+    /// @notice FHE types a collection attribute can be declared with.
+    enum AttributeType {
+        Bool,
+        Uint8,
+        Uint32,
+        Uint64,
+        Address
+    }
+
+    /// @notice Collection-wide declaration of an encrypted token attribute.
+    /// @dev `minValue` and `maxValue` bound integer attributes and are zero for the other types.
+    struct AttributeDefinition {
+        bytes32 key;
+        string name;
+        AttributeType fheType;
+        uint64 minValue;
+        uint64 maxValue;
+    }
+
+    /// @notice Comparisons a condition proof can check.
+    enum Comparison {
+        Eq,
+        Ne,
+        Ge,
+        Gt,
+        Le,
+        Lt
+    }
+
+    /// @notice Encrypted outcome of a condition checked against a token's hidden data.
+    /// @dev `subject` is an attribute key or `MESSAGE_SUBJECT`; `operand` is zero when it was encrypted.
+    ///      `blockNumber` locates the `ConditionProven` event of the request.
+    struct ConditionProof {
+        uint256 tokenId;
+        address requester;
+        bytes32 subject;
+        Comparison op;
+        uint256 operand;
+        bool encryptedOperand;
+        bool publicResult;
+        ebool result;
+        uint256 blockNumber;
+    }
+
     /// @dev Emitted when attempting to read an attribute that has not been initialized yet.
     error AttributeNotInitialized(uint256 tokenId);
 
+    /// @dev Emitted when a chunked mint receives zero or too many message chunks.
+    error InvalidChunkCount(uint256 count);
+
+    /// @dev Emitted when a caller other than the token owner tries to change owner-only token data.
+    error NotTokenOwner(uint256 tokenId, address caller);
+
+    /// @dev Emitted when an attribute definition is unnamed, already declared, out of bounds or over the limit.
+    error InvalidAttributeDefinition(string name);
+
+    /// @dev Emitted when a mint does not provide exactly one encrypted value per schema attribute.
+    error InvalidAttributeCount(uint256 count, uint256 expected);
+
+    /// @dev Emitted when reading an attribute key the schema does not declare.
+    error UnknownAttribute(bytes32 key);
+
+    /// @dev Emitted when granting read access to the zero address or to an existing viewer.
+    error InvalidViewer(uint256 tokenId, address viewer);
+
+    /// @dev Emitted when a caller other than the token owner or a viewer asks for a condition proof.
+    error NotAllowedToProve(uint256 tokenId, address caller);
+
+    /// @dev Emitted when ordering a boolean or address attribute, which only supports Eq and Ne.
+    error UnsupportedComparison(bytes32 subject, Comparison op);
+
+    /// @dev Emitted when a public operand does not fit the attribute's type.
+    error InvalidOperand(bytes32 subject, uint256 operand);
+
+    /// @dev Emitted when reading a condition proof that was never recorded.
+    error UnknownProof(uint256 proofId);
+
+    /// @dev Emitted when revealing a message that is already publicly decryptable.
+    error MessageAlreadyRevealed(uint256 tokenId);
+
+    /// @notice ERC-4906 signal that a token's metadata changed.
+    event MetadataUpdate(uint256 _tokenId);
+
+    /// @notice Emitted when the contract owner adds an attribute to the collection schema.
+    event AttributeDefined(bytes32 indexed key, string name, AttributeType fheType, uint64 minValue, uint64 maxValue);
+
+    /// @notice Emitted when a token owner lets another address decrypt the token's message.
+    event ViewerGranted(uint256 indexed tokenId, address indexed owner, address indexed viewer);
+
+    /// @notice Emitted when a token owner replaces the token's message with a fresh ciphertext.
+    event MessageUpdated(uint256 indexed tokenId, address indexed owner);
+
+    /// @notice Emitted when a token owner makes the token's message publicly decryptable.
+    event MessageRevealed(uint256 indexed tokenId, address indexed owner);
+
+    /// @notice Emitted when a condition on a token's hidden data is computed.
+    event ConditionProven(
+        uint256 indexed proofId,
+        uint256 indexed tokenId,
+        address indexed requester,
+        bytes32 subject,
+        Comparison op,
+        bool publicResult
+    );
+
+    /// @notice Maximum number of euint256 chunks a single message can span.
+    uint256 public constant MAX_MESSAGE_CHUNKS = 4;
+
+    /// @notice Maximum number of attributes the collection schema can declare.
+    uint256 public constant MAX_ATTRIBUTES = 16;
+
+    /// @notice Condition proof subject designating the token's message rather than an attribute.
+    bytes32 public constant MESSAGE_SUBJECT = bytes32(0);
+
     /// @notice Next token identifier to mint.
     uint256 private _nextTokenId;
 
@@ -23,9 +148,39 @@ contract HiddenAttributeNFT is ERC721Enumerable, Ownable, ZamaEthereumConfig {
     /// @notice Encrypted message stored for every minted token id.
     mapping(uint256 tokenId => euint256) private _tokenMessages;
 
+    /// @notice Encrypted message chunks for tokens minted through `mintWithChunks`.
+    mapping(uint256 tokenId => euint256[]) private _tokenMessageChunks;
+
     /// @notice Image URI for each token.
     mapping(uint256 tokenId => string) private _tokenImageURIs;
 
+    /// @notice Metadata JSON URI for each token, overriding the base URI when set.
+    mapping(uint256 tokenId => string) private _tokenMetadataURIs;
+
+    /// @notice Attributes every token of the collection carries, in declaration order.
+    AttributeDefinition[] private _attributeSchema;
+
+    /// @notice Position in `_attributeSchema` plus one for each declared key, zero when undeclared.
+    mapping(bytes32 key => uint256) private _attributePositions;
+
+    /// @notice Encrypted attribute handles of each token, by attribute key.
+    mapping(uint256 tokenId => mapping(bytes32 key => bytes32 handle)) private _tokenAttributes;
+
+    /// @notice Addresses granted read access to each token's message, in grant order.
+    mapping(uint256 tokenId => address[]) private _tokenViewers;
+
+    /// @notice Whether an address is listed in `_tokenViewers` for a token.
+    mapping(uint256 tokenId => mapping(address viewer => bool)) private _isTokenViewer;
+
+    /// @notice Tokens each address was granted read access to, in grant order.
+    mapping(address viewer => uint256[]) private _viewerTokens;
+
+    /// @notice Whether each token's current message was made publicly decryptable.
+    mapping(uint256 tokenId => bool) private _publicMessages;
+
+    /// @notice Condition proofs in request order, indexed by proof id.
+    ConditionProof[] private _proofs;
+
     constructor(string memory name_, string memory symbol_, string memory baseTokenURI_)
         ERC721(name_, symbol_)
         Ownable(_msgSender())
@@ -55,6 +210,75 @@ contract HiddenAttributeNFT is ERC721Enumerable, Ownable, ZamaEthereumConfig {
         FHE.allow(message, _msgSender());
     }
 
+    /// @notice Mints a token for the caller with a message split across several encrypted chunks.
+    /// @param encryptedChunks Ciphertext handles for each message chunk, in order, sharing one input proof.
+    /// @param inputProof Proof tied to the encrypted inputs.
+    /// @param imageURI The URI pointing to the NFT image (IPFS, HTTP, etc.).
+    /// @param metadataURI The URI of the token's ERC-721 metadata JSON, or empty to use the base URI.
+    /// @return tokenId Newly minted token id.
+    function mintWithChunks(
+        externalEuint256[] calldata encryptedChunks,
+        bytes calldata inputProof,
+        string calldata imageURI,
+        string calldata metadataURI
+    ) external returns (uint256 tokenId) {
+        return _mintWithChunks(encryptedChunks, inputProof, imageURI, metadataURI);
+    }
+
+    /// @notice Mints a token for the caller with a chunked message and one encrypted value per schema attribute.
+    /// @dev Message chunks and attributes come from a single encrypted input and share its proof.
+    ///      Integer attributes outside their declared bounds are clamped into them.
+    /// @param encryptedChunks Ciphertext handles for each message chunk, in order.
+    /// @param encryptedAttributes Ciphertext handles for each schema attribute, in schema order.
+    /// @param inputProof Proof tied to the encrypted inputs.
+    /// @param imageURI The URI pointing to the NFT image (IPFS, HTTP, etc.).
+    /// @param metadataURI The URI of the token's ERC-721 metadata JSON, or empty to use the base URI.
+    /// @return tokenId Newly minted token id.
+    function mintWithAttributes(
+        externalEuint256[] calldata encryptedChunks,
+        bytes32[] calldata encryptedAttributes,
+        bytes calldata inputProof,
+        string calldata imageURI,
+        string calldata metadataURI
+    ) external returns (uint256 tokenId) {
+        tokenId = _mintWithChunks(encryptedChunks, inputProof, imageURI, metadataURI);
+        _storeAttributes(tokenId, encryptedAttributes, inputProof);
+    }
+
+    /// @dev Mints the next token id to the caller and stores its message chunks and URIs.
+    function _mintWithChunks(
+        externalEuint256[] calldata encryptedChunks,
+        bytes calldata inputProof,
+        string calldata imageURI,
+        string calldata metadataURI
+    ) private returns (uint256 tokenId) {
+        uint256 count = encryptedChunks.length;
+        if (count == 0 || count > MAX_MESSAGE_CHUNKS) {
+            revert InvalidChunkCount(count);
+        }
+
+        tokenId = _nextTokenId;
+        unchecked {
+            _nextTokenId = tokenId + 1;
+        }
+
+        _safeMint(_msgSender(), tokenId);
+
+        euint256[] storage chunks = _tokenMessageChunks[tokenId];
+        for (uint256 index = 0; index < count; index++) {
+            euint256 chunk = FHE.fromExternal(encryptedChunks[index], inputProof);
+            chunks.push(chunk);
+
+            FHE.allowThis(chunk);
+            FHE.allow(chunk, _msgSender());
+        }
+        _tokenImageURIs[tokenId] = imageURI;
+
+        if (bytes(metadataURI).length > 0) {
+            _tokenMetadataURIs[tokenId] = metadataURI;
+        }
+    }
+
     /// @notice Returns the encrypted message stored for a token id.
     /// @param tokenId Token whose encrypted message is queried.
     /// @return Encrypted message stored on-chain.
@@ -69,6 +293,62 @@ contract HiddenAttributeNFT is ERC721Enumerable, Ownable, ZamaEthereumConfig {
         return message;
     }
 
+    /// @notice Returns every encrypted message chunk stored for a token id.
+    /// @dev Tokens minted through `mint` return their single message as a one-element array.
+    /// @param tokenId Token whose encrypted message chunks are queried.
+    /// @return chunks Encrypted message chunks in order.
+    function getEncryptedMessageChunks(uint256 tokenId) external view returns (euint256[] memory chunks) {
+        ownerOf(tokenId);
+        return _messageChunks(tokenId);
+    }
+
+    /// @notice Adds an encrypted attribute to the collection schema.
+    /// @dev Tokens minted before the declaration carry no value for it.
+    /// @param name Attribute name, unique within the schema; its keccak256 hash is the attribute key.
+    /// @param fheType FHE type the attribute is encrypted as.
+    /// @param minValue Lowest value of an integer attribute, zero for the other types.
+    /// @param maxValue Highest value of an integer attribute, zero for the other types.
+    function defineAttribute(string calldata name, AttributeType fheType, uint64 minValue, uint64 maxValue) external onlyOwner {
+        bytes32 key = keccak256(bytes(name));
+        bool integer = fheType == AttributeType.Uint8 || fheType == AttributeType.Uint32 || fheType == AttributeType.Uint64;
+        bool validBounds = integer ? minValue <= maxValue && maxValue <= _maxValue(fheType) : minValue == 0 && maxValue == 0;
+        if (
+            bytes(name).length == 0 ||
+            _attributePositions[key] != 0 ||
+            _attributeSchema.length >= MAX_ATTRIBUTES ||
+            !validBounds
+        ) {
+            revert InvalidAttributeDefinition(name);
+        }
+
+        _attributeSchema.push(AttributeDefinition(key, name, fheType, minValue, maxValue));
+        _attributePositions[key] = _attributeSchema.length;
+        emit AttributeDefined(key, name, fheType, minValue, maxValue);
+    }
+
+    /// @notice Returns the collection schema.
+    /// @return Attribute definitions in declaration order, which is also the mint order.
+    function getAttributeSchema() external view returns (AttributeDefinition[] memory) {
+        return _attributeSchema;
+    }
+
+    /// @notice Returns one encrypted attribute of a token.
+    /// @param tokenId Token whose attribute is queried.
+    /// @param key Attribute key, the keccak256 hash of its name.
+    /// @return Handle of the attribute, typed as declared in the schema.
+    function getEncryptedAttribute(uint256 tokenId, bytes32 key) external view returns (bytes32) {
+        ownerOf(tokenId);
+        if (_attributePositions[key] == 0) {
+            revert UnknownAttribute(key);
+        }
+
+        bytes32 handle = _tokenAttributes[tokenId][key];
+        if (handle == bytes32(0)) {
+            revert AttributeNotInitialized(tokenId);
+        }
+        return handle;
+    }
+
     /// @notice Returns the image URI for a specific token.
     /// @param tokenId Token whose image URI is queried.
     /// @return The image URI string.
@@ -77,6 +357,271 @@ contract HiddenAttributeNFT is ERC721Enumerable, Ownable, ZamaEthereumConfig {
         return _tokenImageURIs[tokenId];
     }
 
+    /// @notice Sets the metadata JSON URI of a token.
+    /// @param tokenId Token whose metadata URI is updated.
+    /// @param metadataURI New metadata URI, or empty to fall back to the base URI.
+    function setTokenMetadataURI(uint256 tokenId, string calldata metadataURI) external {
+        if (ownerOf(tokenId) != _msgSender()) {
+            revert NotTokenOwner(tokenId, _msgSender());
+        }
+
+        _tokenMetadataURIs[tokenId] = metadataURI;
+        emit MetadataUpdate(tokenId);
+    }
+
+    /// @notice Replaces a token's message with freshly encrypted chunks.
+    /// @dev Former owners and viewers keep access to the old ciphertext but not to the new one,
+    ///      so the viewer lists start over, and a publicly revealed message turns private again.
+    ///      Only `getEncryptedMessageChunks` serves the new message.
+    ///      Attributes are left untouched.
+    /// @param tokenId Token whose message is replaced.
+    /// @param encryptedChunks Ciphertext handles for each chunk of the new message, sharing one input proof.
+    /// @param inputProof Proof tied to the encrypted inputs.
+    function updateMessage(uint256 tokenId, externalEuint256[] calldata encryptedChunks, bytes calldata inputProof) external {
+        if (ownerOf(tokenId) != _msgSender()) {
+            revert NotTokenOwner(tokenId, _msgSender());
+        }
+
+        uint256 count = encryptedChunks.length;
+        if (count == 0 || count > MAX_MESSAGE_CHUNKS) {
+            revert InvalidChunkCount(count);
+        }
+
+        delete _tokenMessages[tokenId];
+        delete _publicMessages[tokenId];
+        euint256[] storage chunks = _tokenMessageChunks[tokenId];
+        delete _tokenMessageChunks[tokenId];
+        for (uint256 index = 0; index < count; index++) {
+            euint256 chunk = FHE.fromExternal(encryptedChunks[index], inputProof);
+            chunks.push(chunk);
+
+            FHE.allowThis(chunk);
+            FHE.allow(chunk, _msgSender());
+        }
+
+        _clearViewers(tokenId);
+        emit MessageUpdated(tokenId, _msgSender());
+    }
+
+    /// @notice Makes a token's message publicly decryptable, e.g. to publish the answer of a puzzle.
+    /// @dev Irreversible for the current ciphertext; a later `updateMessage` stores a new, private one.
+    /// @param tokenId Token whose message is published.
+    function revealPublicly(uint256 tokenId) external {
+        if (ownerOf(tokenId) != _msgSender()) {
+            revert NotTokenOwner(tokenId, _msgSender());
+        }
+        if (_publicMessages[tokenId]) {
+            revert MessageAlreadyRevealed(tokenId);
+        }
+
+        euint256[] memory chunks = _messageChunks(tokenId);
+        for (uint256 index = 0; index < chunks.length; index++) {
+            FHE.makePubliclyDecryptable(chunks[index]);
+        }
+
+        _publicMessages[tokenId] = true;
+        emit MessageRevealed(tokenId, _msgSender());
+    }
+
+    /// @notice Whether a token's current message is publicly decryptable.
+    /// @param tokenId Token to check.
+    /// @return True once `revealPublicly` succeeded, until the message is updated.
+    function isMessagePublic(uint256 tokenId) external view returns (bool) {
+        ownerOf(tokenId);
+        return _publicMessages[tokenId];
+    }
+
+    /// @notice Checks that cleartexts returned by a public decryption are the token's current message.
+    /// @dev Reverts when the KMS signatures do not cover these chunks and cleartexts.
+    /// @param tokenId Token whose message was decrypted.
+    /// @param abiEncodedCleartexts Decrypted chunks, ABI-encoded in chunk order, as returned by the relayer.
+    /// @param decryptionProof KMS signatures returned by the relayer along with the cleartexts.
+    /// @return True when the signatures are valid.
+    function checkRevealedMessage(uint256 tokenId, bytes calldata abiEncodedCleartexts, bytes calldata decryptionProof)
+        external
+        returns (bool)
+    {
+        euint256[] memory chunks = _messageChunks(tokenId);
+        bytes32[] memory handles = new bytes32[](chunks.length);
+        for (uint256 index = 0; index < chunks.length; index++) {
+            handles[index] = euint256.unwrap(chunks[index]);
+        }
+
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+        return true;
+    }
+
+    /// @notice Lets another address decrypt the token's message and attributes.
+    /// @dev ACL grants cannot be revoked: the viewer keeps access to this ciphertext after transfers.
+    /// @param tokenId Token whose message is shared.
+    /// @param viewer Address granted read access.
+    function grantViewer(uint256 tokenId, address viewer) external {
+        if (ownerOf(tokenId) != _msgSender()) {
+            revert NotTokenOwner(tokenId, _msgSender());
+        }
+        if (viewer == address(0) || _isTokenViewer[tokenId][viewer]) {
+            revert InvalidViewer(tokenId, viewer);
+        }
+
+        euint256 message = _tokenMessages[tokenId];
+        if (FHE.isInitialized(message)) {
+            FHE.allow(message, viewer);
+        }
+
+        euint256[] storage chunks = _tokenMessageChunks[tokenId];
+        for (uint256 index = 0; index < chunks.length; index++) {
+            FHE.allow(chunks[index], viewer);
+        }
+        _allowAttributes(tokenId, viewer);
+
+        _tokenViewers[tokenId].push(viewer);
+        _isTokenViewer[tokenId][viewer] = true;
+        _viewerTokens[viewer].push(tokenId);
+
+        emit ViewerGranted(tokenId, _msgSender(), viewer);
+    }
+
+    /// @notice Lists the addresses granted read access to a token's message.
+    /// @param tokenId Token whose viewers are queried.
+    /// @return viewers Granted addresses, in grant order.
+    function getViewers(uint256 tokenId) external view returns (address[] memory viewers) {
+        ownerOf(tokenId);
+        return _tokenViewers[tokenId];
+    }
+
+    /// @notice Whether an address was granted read access to a token's message.
+    /// @param tokenId Token to check.
+    /// @param viewer Address to check.
+    /// @return True once `grantViewer` succeeded for this pair.
+    function isViewer(uint256 tokenId, address viewer) external view returns (bool) {
+        return _isTokenViewer[tokenId][viewer];
+    }
+
+    /// @notice Lists the tokens an address was granted read access to.
+    /// @dev Includes tokens the viewer has since come to own.
+    /// @param viewer Address to enumerate grants for.
+    /// @return tokens Token ids, in grant order.
+    function tokensSharedWith(address viewer) external view returns (uint256[] memory tokens) {
+        return _viewerTokens[viewer];
+    }
+
+    /// @notice Compares an attribute of a token with a public operand without revealing the attribute.
+    /// @dev Integer attributes support every comparison, boolean and address attributes only Eq and Ne.
+    ///      The encrypted result is decryptable by the caller, and by anyone when `publicResult` is set.
+    /// @param tokenId Token whose attribute is checked.
+    /// @param key Attribute key, the keccak256 hash of its name.
+    /// @param op Comparison applied as `attribute op operand`.
+    /// @param operand Public operand: an integer, 0 or 1 for booleans, or an address cast to uint256.
+    /// @param publicResult Whether anyone may decrypt the result.
+    /// @return proofId Identifier of the recorded proof.
+    function proveAttribute(uint256 tokenId, bytes32 key, Comparison op, uint256 operand, bool publicResult)
+        external
+        returns (uint256 proofId)
+    {
+        AttributeType fheType = _checkAttributeCondition(tokenId, key, op);
+        bytes32 operandHandle = _asOperand(key, fheType, operand);
+
+        ebool result = _compareAttribute(fheType, _tokenAttributes[tokenId][key], operandHandle, op);
+        return _recordProof(tokenId, key, op, operand, false, publicResult, result);
+    }
+
+    /// @notice Compares an attribute of a token with an encrypted operand, keeping both hidden.
+    /// @dev Integer operands are encrypted as euint64, boolean operands as ebool and address operands as eaddress.
+    /// @param tokenId Token whose attribute is checked.
+    /// @param key Attribute key, the keccak256 hash of its name.
+    /// @param op Comparison applied as `attribute op operand`.
+    /// @param encryptedOperand Ciphertext handle of the operand returned by the Relayer SDK.
+    /// @param inputProof Proof tied to the encrypted input.
+    /// @param publicResult Whether anyone may decrypt the result.
+    /// @return proofId Identifier of the recorded proof.
+    function proveAttributeEncrypted(
+        uint256 tokenId,
+        bytes32 key,
+        Comparison op,
+        bytes32 encryptedOperand,
+        bytes calldata inputProof,
+        bool publicResult
+    ) external returns (uint256 proofId) {
+        AttributeType fheType = _checkAttributeCondition(tokenId, key, op);
+        bytes32 operandHandle = _fromExternalOperand(fheType, encryptedOperand, inputProof);
+
+        ebool result = _compareAttribute(fheType, _tokenAttributes[tokenId][key], operandHandle, op);
+        return _recordProof(tokenId, key, op, 0, true, publicResult, result);
+    }
+
+    /// @notice Checks whether a token's message equals an encrypted candidate, keeping both hidden.
+    /// @dev Chunks are compared one by one; messages spanning a different number of chunks are never equal.
+    /// @param tokenId Token whose message is checked.
+    /// @param encryptedChunks Ciphertext handles for each chunk of the candidate message, sharing one input proof.
+    /// @param inputProof Proof tied to the encrypted inputs.
+    /// @param publicResult Whether anyone may decrypt the result.
+    /// @return proofId Identifier of the recorded proof.
+    function proveMessageEquals(
+        uint256 tokenId,
+        externalEuint256[] calldata encryptedChunks,
+        bytes calldata inputProof,
+        bool publicResult
+    ) external returns (uint256 proofId) {
+        _checkProver(tokenId);
+
+        uint256 count = encryptedChunks.length;
+        if (count == 0 || count > MAX_MESSAGE_CHUNKS) {
+            revert InvalidChunkCount(count);
+        }
+
+        euint256[] memory chunks = _messageChunks(tokenId);
+        ebool result = FHE.asEbool(chunks.length == count);
+        for (uint256 index = 0; index < count && index < chunks.length; index++) {
+            euint256 candidate = FHE.fromExternal(encryptedChunks[index], inputProof);
+            result = FHE.and(result, FHE.eq(chunks[index], candidate));
+        }
+
+        return _recordProof(tokenId, MESSAGE_SUBJECT, Comparison.Eq, 0, true, publicResult, result);
+    }
+
+    /// @notice Returns a recorded condition proof.
+    /// @param proofId Identifier emitted in `ConditionProven`.
+    /// @return The proof, whose `result` handle decrypts to the outcome of the condition.
+    function getProof(uint256 proofId) external view returns (ConditionProof memory) {
+        if (proofId >= _proofs.length) {
+            revert UnknownProof(proofId);
+        }
+        return _proofs[proofId];
+    }
+
+    /// @notice Checks that a cleartext returned by a public decryption is a proof's recorded outcome.
+    /// @dev Reverts when the KMS signatures do not cover the result handle and this cleartext.
+    /// @param proofId Proof whose result was decrypted.
+    /// @param abiEncodedCleartexts Decrypted outcome, ABI-encoded, as returned by the relayer.
+    /// @param decryptionProof KMS signatures returned by the relayer along with the cleartext.
+    /// @return True when the signatures are valid.
+    function checkProofResult(uint256 proofId, bytes calldata abiEncodedCleartexts, bytes calldata decryptionProof)
+        external
+        returns (bool)
+    {
+        if (proofId >= _proofs.length) {
+            revert UnknownProof(proofId);
+        }
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = ebool.unwrap(_proofs[proofId].result);
+
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+        return true;
+    }
+
+    /// @notice Returns the token's own metadata URI when set, otherwise base URI plus token id.
+    /// @inheritdoc ERC721
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+
+        string memory metadataURI = _tokenMetadataURIs[tokenId];
+        if (bytes(metadataURI).length > 0) {
+            return metadataURI;
+        }
+
+        return super.tokenURI(tokenId);
+    }
+
     /// @notice Lists all token ids owned by an address.
     /// @param owner Address to enumerate tokens for.
     /// @return tokens List of token ids owned by `owner`.
@@ -99,6 +644,239 @@ contract HiddenAttributeNFT is ERC721Enumerable, Ownable, ZamaEthereumConfig {
         return _baseTokenURI;
     }
 
+    /// @dev Decrypts each attribute input with its declared type and grants the minter access.
+    function _storeAttributes(uint256 tokenId, bytes32[] calldata encryptedAttributes, bytes calldata inputProof) private {
+        uint256 count = _attributeSchema.length;
+        if (encryptedAttributes.length != count) {
+            revert InvalidAttributeCount(encryptedAttributes.length, count);
+        }
+
+        for (uint256 index = 0; index < count; index++) {
+            AttributeDefinition storage definition = _attributeSchema[index];
+            bytes32 handle = _fromExternalAttribute(definition, encryptedAttributes[index], inputProof);
+            _tokenAttributes[tokenId][definition.key] = handle;
+
+            _allowAttribute(definition.fheType, handle, address(this));
+            _allowAttribute(definition.fheType, handle, _msgSender());
+        }
+    }
+
+    /// @dev Verifies one attribute input and clamps integers into the declared bounds homomorphically.
+    function _fromExternalAttribute(
+        AttributeDefinition storage definition,
+        bytes32 encrypted,
+        bytes calldata inputProof
+    ) private returns (bytes32) {
+        AttributeType fheType = definition.fheType;
+        if (fheType == AttributeType.Bool) {
+            return ebool.unwrap(FHE.fromExternal(externalEbool.wrap(encrypted), inputProof));
+        }
+        if (fheType == AttributeType.Address) {
+            return eaddress.unwrap(FHE.fromExternal(externalEaddress.wrap(encrypted), inputProof));
+        }
+        if (fheType == AttributeType.Uint8) {
+            euint8 value = FHE.fromExternal(externalEuint8.wrap(encrypted), inputProof);
+            value = FHE.min(FHE.max(value, uint8(definition.minValue)), uint8(definition.maxValue));
+            return euint8.unwrap(value);
+        }
+        if (fheType == AttributeType.Uint32) {
+            euint32 value = FHE.fromExternal(externalEuint32.wrap(encrypted), inputProof);
+            value = FHE.min(FHE.max(value, uint32(definition.minValue)), uint32(definition.maxValue));
+            return euint32.unwrap(value);
+        }
+        euint64 value64 = FHE.fromExternal(externalEuint64.wrap(encrypted), inputProof);
+        value64 = FHE.min(FHE.max(value64, definition.minValue), definition.maxValue);
+        return euint64.unwrap(value64);
+    }
+
+    /// @dev Grants an account access to every attribute a token carries.
+    function _allowAttributes(uint256 tokenId, address account) private {
+        for (uint256 index = 0; index < _attributeSchema.length; index++) {
+            AttributeDefinition storage definition = _attributeSchema[index];
+            bytes32 handle = _tokenAttributes[tokenId][definition.key];
+            if (handle != bytes32(0)) {
+                _allowAttribute(definition.fheType, handle, account);
+            }
+        }
+    }
+
+    /// @dev Adds an account to the ACL of an attribute handle, wrapped as its declared type.
+    function _allowAttribute(AttributeType fheType, bytes32 handle, address account) private {
+        if (fheType == AttributeType.Bool) {
+            FHE.allow(ebool.wrap(handle), account);
+        } else if (fheType == AttributeType.Uint8) {
+            FHE.allow(euint8.wrap(handle), account);
+        } else if (fheType == AttributeType.Uint32) {
+            FHE.allow(euint32.wrap(handle), account);
+        } else if (fheType == AttributeType.Uint64) {
+            FHE.allow(euint64.wrap(handle), account);
+        } else {
+            FHE.allow(eaddress.wrap(handle), account);
+        }
+    }
+
+    /// @dev Largest value an integer attribute type can hold.
+    function _maxValue(AttributeType fheType) private pure returns (uint64) {
+        if (fheType == AttributeType.Uint8) {
+            return type(uint8).max;
+        }
+        if (fheType == AttributeType.Uint32) {
+            return type(uint32).max;
+        }
+        return type(uint64).max;
+    }
+
+    /// @dev Returns the message chunks of a token, wrapping the single message of tokens minted through `mint`.
+    function _messageChunks(uint256 tokenId) private view returns (euint256[] memory chunks) {
+        chunks = _tokenMessageChunks[tokenId];
+        if (chunks.length == 0) {
+            euint256 message = _tokenMessages[tokenId];
+            if (!FHE.isInitialized(message)) {
+                revert AttributeNotInitialized(tokenId);
+            }
+
+            chunks = new euint256[](1);
+            chunks[0] = message;
+        }
+    }
+
+    /// @dev Only the token owner and its viewers may compute conditions on data they can already decrypt.
+    function _checkProver(uint256 tokenId) private view {
+        if (ownerOf(tokenId) != _msgSender() && !_isTokenViewer[tokenId][_msgSender()]) {
+            revert NotAllowedToProve(tokenId, _msgSender());
+        }
+    }
+
+    /// @dev Checks the caller, the attribute and the comparison of an attribute condition.
+    function _checkAttributeCondition(uint256 tokenId, bytes32 key, Comparison op) private view returns (AttributeType) {
+        _checkProver(tokenId);
+
+        uint256 position = _attributePositions[key];
+        if (position == 0) {
+            revert UnknownAttribute(key);
+        }
+        if (_tokenAttributes[tokenId][key] == bytes32(0)) {
+            revert AttributeNotInitialized(tokenId);
+        }
+
+        AttributeType fheType = _attributeSchema[position - 1].fheType;
+        bool ordered = fheType != AttributeType.Bool && fheType != AttributeType.Address;
+        if (!ordered && op != Comparison.Eq && op != Comparison.Ne) {
+            revert UnsupportedComparison(key, op);
+        }
+        return fheType;
+    }
+
+    /// @dev Trivially encrypts a public operand as the type the attribute is compared in.
+    function _asOperand(bytes32 key, AttributeType fheType, uint256 operand) private returns (bytes32) {
+        if (fheType == AttributeType.Bool) {
+            if (operand > 1) {
+                revert InvalidOperand(key, operand);
+            }
+            return ebool.unwrap(FHE.asEbool(operand == 1));
+        }
+        if (fheType == AttributeType.Address) {
+            if (operand > type(uint160).max) {
+                revert InvalidOperand(key, operand);
+            }
+            return eaddress.unwrap(FHE.asEaddress(address(uint160(operand))));
+        }
+        if (operand > type(uint64).max) {
+            revert InvalidOperand(key, operand);
+        }
+        return euint64.unwrap(FHE.asEuint64(uint64(operand)));
+    }
+
+    /// @dev Verifies an encrypted operand, typed as the attribute is compared in.
+    function _fromExternalOperand(AttributeType fheType, bytes32 encrypted, bytes calldata inputProof) private returns (bytes32) {
+        if (fheType == AttributeType.Bool) {
+            return ebool.unwrap(FHE.fromExternal(externalEbool.wrap(encrypted), inputProof));
+        }
+        if (fheType == AttributeType.Address) {
+            return eaddress.unwrap(FHE.fromExternal(externalEaddress.wrap(encrypted), inputProof));
+        }
+        return euint64.unwrap(FHE.fromExternal(externalEuint64.wrap(encrypted), inputProof));
+    }
+
+    /// @dev Compares an attribute handle with an operand handle; integers are widened to euint64 first.
+    function _compareAttribute(AttributeType fheType, bytes32 handle, bytes32 operand, Comparison op) private returns (ebool) {
+        if (fheType == AttributeType.Bool) {
+            ebool value = ebool.wrap(handle);
+            return op == Comparison.Eq ? FHE.eq(value, ebool.wrap(operand)) : FHE.ne(value, ebool.wrap(operand));
+        }
+        if (fheType == AttributeType.Address) {
+            eaddress value = eaddress.wrap(handle);
+            return op == Comparison.Eq ? FHE.eq(value, eaddress.wrap(operand)) : FHE.ne(value, eaddress.wrap(operand));
+        }
+
+        euint64 widened;
+        if (fheType == AttributeType.Uint8) {
+            widened = FHE.asEuint64(euint8.wrap(handle));
+        } else if (fheType == AttributeType.Uint32) {
+            widened = FHE.asEuint64(euint32.wrap(handle));
+        } else {
+            widened = euint64.wrap(handle);
+        }
+
+        euint64 rhs = euint64.wrap(operand);
+        if (op == Comparison.Eq) {
+            return FHE.eq(widened, rhs);
+        }
+        if (op == Comparison.Ne) {
+            return FHE.ne(widened, rhs);
+        }
+        if (op == Comparison.Ge) {
+            return FHE.ge(widened, rhs);
+        }
+        if (op == Comparison.Gt) {
+            return FHE.gt(widened, rhs);
+        }
+        if (op == Comparison.Le) {
+            return FHE.le(widened, rhs);
+        }
+        return FHE.lt(widened, rhs);
+    }
+
+    /// @dev Grants the caller (and optionally everyone) access to a result and stores the proof.
+    function _recordProof(
+        uint256 tokenId,
+        bytes32 subject,
+        Comparison op,
+        uint256 operand,
+        bool encryptedOperand,
+        bool publicResult,
+        ebool result
+    ) private returns (uint256 proofId) {
+        FHE.allowThis(result);
+        FHE.allow(result, _msgSender());
+        if (publicResult) {
+            FHE.makePubliclyDecryptable(result);
+        }
+
+        proofId = _proofs.length;
+        _proofs.push(ConditionProof(tokenId, _msgSender(), subject, op, operand, encryptedOperand, publicResult, result, block.number));
+        emit ConditionProven(proofId, tokenId, _msgSender(), subject, op, publicResult);
+    }
+
+    /// @dev Forgets every viewer of a token, removing the token from each viewer's list.
+    function _clearViewers(uint256 tokenId) private {
+        address[] storage viewers = _tokenViewers[tokenId];
+        for (uint256 index = 0; index < viewers.length; index++) {
+            address viewer = viewers[index];
+            _isTokenViewer[tokenId][viewer] = false;
+
+            uint256[] storage tokens = _viewerTokens[viewer];
+            for (uint256 position = 0; position < tokens.length; position++) {
+                if (tokens[position] == tokenId) {
+                    tokens[position] = tokens[tokens.length - 1];
+                    tokens.pop();
+                    break;
+                }
+            }
+        }
+        delete _tokenViewers[tokenId];
+    }
+
     /// @inheritdoc ERC721
     function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
         address previousOwner = super._update(to, tokenId, auth);
@@ -109,6 +887,13 @@ contract HiddenAttributeNFT is ERC721Enumerable, Ownable, ZamaEthereumConfig {
                 FHE.allow(message, to);
                 FHE.allowThis(message);
             }
+
+            euint256[] storage chunks = _tokenMessageChunks[tokenId];
+            for (uint256 index = 0; index < chunks.length; index++) {
+                FHE.allow(chunks[index], to);
+                FHE.allowThis(chunks[index]);
+            }
+            _allowAttributes(tokenId, to);
         }
 
         return previousOwner;
@@ -0,0 +1,807 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC721Enumerable} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @title Mock Hidden Attribute NFT
+/// @notice Drop-in stand-in for HiddenAttributeNFT on a local Hardhat/anvil node without FHEVM.
+/// @dev Exposes the same ABI, but ciphertext handles are opaque bytes32 values produced by the
+///      frontend's mock FHEVM instance and access control is tracked by the contract itself.
+///      Never deploy this to a public network: nothing stored here is encrypted.
+contract MockHiddenAttributeNFT is ERC721Enumerable, Ownable {
+    /// @notice FHE types a collection attribute can be declared with.
+    enum AttributeType {
+        Bool,
+        Uint8,
+        Uint32,
+        Uint64,
+        Address
+    }
+
+    /// @notice Collection-wide declaration of an encrypted token attribute.
+    /// @dev `minValue` and `maxValue` bound integer attributes and are zero for the other types.
+    struct AttributeDefinition {
+        bytes32 key;
+        string name;
+        AttributeType fheType;
+        uint64 minValue;
+        uint64 maxValue;
+    }
+
+    /// @notice Comparisons a condition proof can check.
+    enum Comparison {
+        Eq,
+        Ne,
+        Ge,
+        Gt,
+        Le,
+        Lt
+    }
+
+    /// @notice Mock encrypted outcome of a condition checked against a token's hidden data.
+    /// @dev `subject` is an attribute key or `MESSAGE_SUBJECT`; `operand` is zero when it was encrypted.
+    ///      `blockNumber` locates the `ConditionProven` event of the request.
+    struct ConditionProof {
+        uint256 tokenId;
+        address requester;
+        bytes32 subject;
+        Comparison op;
+        uint256 operand;
+        bool encryptedOperand;
+        bool publicResult;
+        bytes32 result;
+        uint256 blockNumber;
+    }
+
+    /// @notice Inputs of a mock comparison, from which the mock FHEVM instance computes its result.
+    /// @dev `rhs` is empty when the right-hand side is the public `operand`.
+    struct MockComparison {
+        bytes32[] lhs;
+        bytes32[] rhs;
+        uint256 operand;
+        Comparison op;
+    }
+
+    /// @dev Emitted when attempting to read an attribute that has not been initialized yet.
+    error AttributeNotInitialized(uint256 tokenId);
+
+    /// @dev Emitted when a chunked mint receives zero or too many message chunks.
+    error InvalidChunkCount(uint256 count);
+
+    /// @dev Emitted when a caller other than the token owner tries to change owner-only token data.
+    error NotTokenOwner(uint256 tokenId, address caller);
+
+    /// @dev Emitted when an attribute definition is unnamed, already declared, out of bounds or over the limit.
+    error InvalidAttributeDefinition(string name);
+
+    /// @dev Emitted when a mint does not provide exactly one encrypted value per schema attribute.
+    error InvalidAttributeCount(uint256 count, uint256 expected);
+
+    /// @dev Emitted when reading an attribute key the schema does not declare.
+    error UnknownAttribute(bytes32 key);
+
+    /// @dev Emitted when granting read access to the zero address or to an existing viewer.
+    error InvalidViewer(uint256 tokenId, address viewer);
+
+    /// @dev Emitted when a caller other than the token owner or a viewer asks for a condition proof.
+    error NotAllowedToProve(uint256 tokenId, address caller);
+
+    /// @dev Emitted when ordering a boolean or address attribute, which only supports Eq and Ne.
+    error UnsupportedComparison(bytes32 subject, Comparison op);
+
+    /// @dev Emitted when a public operand does not fit the attribute's type.
+    error InvalidOperand(bytes32 subject, uint256 operand);
+
+    /// @dev Emitted when reading a condition proof that was never recorded.
+    error UnknownProof(uint256 proofId);
+
+    /// @dev Emitted when revealing a message that is already publicly decryptable.
+    error MessageAlreadyRevealed(uint256 tokenId);
+
+    /// @dev Emitted when an input proof was not produced for these handles, caller and contract.
+    error InvalidInputProof();
+
+    /// @notice ERC-4906 signal that a token's metadata changed.
+    event MetadataUpdate(uint256 _tokenId);
+
+    /// @notice Emitted when the contract owner adds an attribute to the collection schema.
+    event AttributeDefined(bytes32 indexed key, string name, AttributeType fheType, uint64 minValue, uint64 maxValue);
+
+    /// @notice Emitted when a token owner lets another address decrypt the token's message.
+    event ViewerGranted(uint256 indexed tokenId, address indexed owner, address indexed viewer);
+
+    /// @notice Emitted when a token owner replaces the token's message with a fresh ciphertext.
+    event MessageUpdated(uint256 indexed tokenId, address indexed owner);
+
+    /// @notice Emitted when a token owner makes the token's message publicly decryptable.
+    event MessageRevealed(uint256 indexed tokenId, address indexed owner);
+
+    /// @notice Emitted when a condition on a token's hidden data is computed.
+    event ConditionProven(
+        uint256 indexed proofId,
+        uint256 indexed tokenId,
+        address indexed requester,
+        bytes32 subject,
+        Comparison op,
+        bool publicResult
+    );
+
+    /// @notice Maximum number of euint256 chunks a single message can span.
+    uint256 public constant MAX_MESSAGE_CHUNKS = 4;
+
+    /// @notice Maximum number of attributes the collection schema can declare.
+    uint256 public constant MAX_ATTRIBUTES = 16;
+
+    /// @notice Condition proof subject designating the token's message rather than an attribute.
+    bytes32 public constant MESSAGE_SUBJECT = bytes32(0);
+
+    /// @notice Next token identifier to mint.
+    uint256 private _nextTokenId;
+
+    /// @notice Base URI appended with token id for metadata lookups.
+    string private _baseTokenURI;
+
+    /// @notice Mock ciphertext handle stored for every token minted through `mint`.
+    mapping(uint256 tokenId => bytes32) private _tokenMessages;
+
+    /// @notice Mock ciphertext handles for tokens minted through `mintWithChunks`.
+    mapping(uint256 tokenId => bytes32[]) private _tokenMessageChunks;
+
+    /// @notice Image URI for each token.
+    mapping(uint256 tokenId => string) private _tokenImageURIs;
+
+    /// @notice Metadata JSON URI for each token, overriding the base URI when set.
+    mapping(uint256 tokenId => string) private _tokenMetadataURIs;
+
+    /// @notice Attributes every token of the collection carries, in declaration order.
+    AttributeDefinition[] private _attributeSchema;
+
+    /// @notice Position in `_attributeSchema` plus one for each declared key, zero when undeclared.
+    mapping(bytes32 key => uint256) private _attributePositions;
+
+    /// @notice Mock encrypted attribute handles of each token, by attribute key.
+    mapping(uint256 tokenId => mapping(bytes32 key => bytes32 handle)) private _tokenAttributes;
+
+    /// @notice Addresses granted read access to each token's message, in grant order.
+    mapping(uint256 tokenId => address[]) private _tokenViewers;
+
+    /// @notice Whether an address is listed in `_tokenViewers` for a token.
+    mapping(uint256 tokenId => mapping(address viewer => bool)) private _isTokenViewer;
+
+    /// @notice Tokens each address was granted read access to, in grant order.
+    mapping(address viewer => uint256[]) private _viewerTokens;
+
+    /// @notice Whether each token's current message was made publicly decryptable.
+    mapping(uint256 tokenId => bool) private _publicMessages;
+
+    /// @notice Condition proofs in request order, indexed by proof id.
+    ConditionProof[] private _proofs;
+
+    /// @notice Inputs of each mock comparison, by result handle.
+    mapping(bytes32 result => MockComparison) private _mockComparisons;
+
+    /// @notice Mock ACL: accounts allowed to user-decrypt a handle.
+    mapping(bytes32 handle => mapping(address account => bool)) public persistAllowed;
+
+    /// @notice Mock ACL: handles anyone may decrypt.
+    mapping(bytes32 handle => bool) public isAllowedForDecryption;
+
+    constructor(string memory name_, string memory symbol_, string memory baseTokenURI_)
+        ERC721(name_, symbol_)
+        Ownable(_msgSender())
+    {
+        _baseTokenURI = baseTokenURI_;
+        _nextTokenId = 1;
+    }
+
+    /// @notice Mints a token for the caller with a mock encrypted message and image URI.
+    /// @param encryptedMessage Handle returned by the mock FHEVM instance.
+    /// @param inputProof Mock proof binding the handle to the caller and this contract.
+    /// @param imageURI The URI pointing to the NFT image (IPFS, HTTP, etc.).
+    /// @return tokenId Newly minted token id.
+    function mint(bytes32 encryptedMessage, bytes calldata inputProof, string calldata imageURI) external returns (uint256 tokenId) {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = encryptedMessage;
+        _verifyInputProof(handles, inputProof);
+
+        tokenId = _nextTokenId;
+        unchecked {
+            _nextTokenId = tokenId + 1;
+        }
+
+        _safeMint(_msgSender(), tokenId);
+
+        _tokenMessages[tokenId] = encryptedMessage;
+        _tokenImageURIs[tokenId] = imageURI;
+
+        persistAllowed[encryptedMessage][_msgSender()] = true;
+    }
+
+    /// @notice Mints a token for the caller with a message split across several mock encrypted chunks.
+    /// @param encryptedChunks Handles for each message chunk, in order, sharing one input proof.
+    /// @param inputProof Mock proof binding the handles to the caller and this contract.
+    /// @param imageURI The URI pointing to the NFT image (IPFS, HTTP, etc.).
+    /// @param metadataURI The URI of the token's ERC-721 metadata JSON, or empty to use the base URI.
+    /// @return tokenId Newly minted token id.
+    function mintWithChunks(
+        bytes32[] calldata encryptedChunks,
+        bytes calldata inputProof,
+        string calldata imageURI,
+        string calldata metadataURI
+    ) external returns (uint256 tokenId) {
+        _verifyInputProof(encryptedChunks, inputProof);
+        return _mintWithChunks(encryptedChunks, imageURI, metadataURI);
+    }
+
+    /// @notice Mints a token for the caller with a chunked message and one mock encrypted value per schema attribute.
+    /// @dev Bounds are not enforced: mock handles carry no value, the frontend validates them before encrypting.
+    /// @param encryptedChunks Handles for each message chunk, in order.
+    /// @param encryptedAttributes Handles for each schema attribute, in schema order.
+    /// @param inputProof Mock proof binding the chunk handles followed by the attribute handles.
+    /// @param imageURI The URI pointing to the NFT image (IPFS, HTTP, etc.).
+    /// @param metadataURI The URI of the token's ERC-721 metadata JSON, or empty to use the base URI.
+    /// @return tokenId Newly minted token id.
+    function mintWithAttributes(
+        bytes32[] calldata encryptedChunks,
+        bytes32[] calldata encryptedAttributes,
+        bytes calldata inputProof,
+        string calldata imageURI,
+        string calldata metadataURI
+    ) external returns (uint256 tokenId) {
+        bytes32[] memory handles = new bytes32[](encryptedChunks.length + encryptedAttributes.length);
+        for (uint256 index = 0; index < encryptedChunks.length; index++) {
+            handles[index] = encryptedChunks[index];
+        }
+        for (uint256 index = 0; index < encryptedAttributes.length; index++) {
+            handles[encryptedChunks.length + index] = encryptedAttributes[index];
+        }
+        _verifyInputProof(handles, inputProof);
+
+        tokenId = _mintWithChunks(encryptedChunks, imageURI, metadataURI);
+        _storeAttributes(tokenId, encryptedAttributes);
+    }
+
+    /// @dev Mints the next token id to the caller and stores its message chunks and URIs.
+    function _mintWithChunks(
+        bytes32[] calldata encryptedChunks,
+        string calldata imageURI,
+        string calldata metadataURI
+    ) private returns (uint256 tokenId) {
+        uint256 count = encryptedChunks.length;
+        if (count == 0 || count > MAX_MESSAGE_CHUNKS) {
+            revert InvalidChunkCount(count);
+        }
+
+        tokenId = _nextTokenId;
+        unchecked {
+            _nextTokenId = tokenId + 1;
+        }
+
+        _safeMint(_msgSender(), tokenId);
+
+        bytes32[] storage chunks = _tokenMessageChunks[tokenId];
+        for (uint256 index = 0; index < count; index++) {
+            chunks.push(encryptedChunks[index]);
+            persistAllowed[encryptedChunks[index]][_msgSender()] = true;
+        }
+        _tokenImageURIs[tokenId] = imageURI;
+
+        if (bytes(metadataURI).length > 0) {
+            _tokenMetadataURIs[tokenId] = metadataURI;
+        }
+    }
+
+    /// @notice Returns the mock encrypted message stored for a token id.
+    /// @param tokenId Token whose encrypted message is queried.
+    /// @return Handle stored on-chain.
+    function getEncryptedMessage(uint256 tokenId) external view returns (bytes32) {
+        ownerOf(tokenId);
+
+        bytes32 message = _tokenMessages[tokenId];
+        if (message == bytes32(0)) {
+            revert AttributeNotInitialized(tokenId);
+        }
+
+        return message;
+    }
+
+    /// @notice Returns every mock encrypted message chunk stored for a token id.
+    /// @param tokenId Token whose encrypted message chunks are queried.
+    /// @return chunks Handles in order.
+    function getEncryptedMessageChunks(uint256 tokenId) external view returns (bytes32[] memory chunks) {
+        ownerOf(tokenId);
+        return _messageChunks(tokenId);
+    }
+
+    /// @notice Adds an encrypted attribute to the collection schema.
+    /// @dev Tokens minted before the declaration carry no value for it.
+    /// @param name Attribute name, unique within the schema; its keccak256 hash is the attribute key.
+    /// @param fheType FHE type the attribute is encrypted as.
+    /// @param minValue Lowest value of an integer attribute, zero for the other types.
+    /// @param maxValue Highest value of an integer attribute, zero for the other types.
+    function defineAttribute(string calldata name, AttributeType fheType, uint64 minValue, uint64 maxValue) external onlyOwner {
+        bytes32 key = keccak256(bytes(name));
+        bool integer = fheType == AttributeType.Uint8 || fheType == AttributeType.Uint32 || fheType == AttributeType.Uint64;
+        bool validBounds = integer ? minValue <= maxValue && maxValue <= _maxValue(fheType) : minValue == 0 && maxValue == 0;
+        if (
+            bytes(name).length == 0 ||
+            _attributePositions[key] != 0 ||
+            _attributeSchema.length >= MAX_ATTRIBUTES ||
+            !validBounds
+        ) {
+            revert InvalidAttributeDefinition(name);
+        }
+
+        _attributeSchema.push(AttributeDefinition(key, name, fheType, minValue, maxValue));
+        _attributePositions[key] = _attributeSchema.length;
+        emit AttributeDefined(key, name, fheType, minValue, maxValue);
+    }
+
+    /// @notice Returns the collection schema.
+    /// @return Attribute definitions in declaration order, which is also the mint order.
+    function getAttributeSchema() external view returns (AttributeDefinition[] memory) {
+        return _attributeSchema;
+    }
+
+    /// @notice Returns one encrypted attribute of a token.
+    /// @param tokenId Token whose attribute is queried.
+    /// @param key Attribute key, the keccak256 hash of its name.
+    /// @return Handle of the attribute, typed as declared in the schema.
+    function getEncryptedAttribute(uint256 tokenId, bytes32 key) external view returns (bytes32) {
+        ownerOf(tokenId);
+        if (_attributePositions[key] == 0) {
+            revert UnknownAttribute(key);
+        }
+
+        bytes32 handle = _tokenAttributes[tokenId][key];
+        if (handle == bytes32(0)) {
+            revert AttributeNotInitialized(tokenId);
+        }
+        return handle;
+    }
+
+    /// @notice Returns the image URI for a specific token.
+    /// @param tokenId Token whose image URI is queried.
+    /// @return The image URI string.
+    function getTokenImageURI(uint256 tokenId) external view returns (string memory) {
+        ownerOf(tokenId);
+        return _tokenImageURIs[tokenId];
+    }
+
+    /// @notice Sets the metadata JSON URI of a token.
+    /// @param tokenId Token whose metadata URI is updated.
+    /// @param metadataURI New metadata URI, or empty to fall back to the base URI.
+    function setTokenMetadataURI(uint256 tokenId, string calldata metadataURI) external {
+        if (ownerOf(tokenId) != _msgSender()) {
+            revert NotTokenOwner(tokenId, _msgSender());
+        }
+
+        _tokenMetadataURIs[tokenId] = metadataURI;
+        emit MetadataUpdate(tokenId);
+    }
+
+    /// @notice Replaces a token's message with freshly encrypted chunks.
+    /// @dev Former owners and viewers keep access to the old ciphertext but not to the new one,
+    ///      so the viewer lists start over, and a publicly revealed message turns private again.
+    ///      Only `getEncryptedMessageChunks` serves the new message.
+    ///      Attributes are left untouched.
+    /// @param tokenId Token whose message is replaced.
+    /// @param encryptedChunks Handles for each chunk of the new message, sharing one input proof.
+    /// @param inputProof Mock proof binding the handles to the caller and this contract.
+    function updateMessage(uint256 tokenId, bytes32[] calldata encryptedChunks, bytes calldata inputProof) external {
+        if (ownerOf(tokenId) != _msgSender()) {
+            revert NotTokenOwner(tokenId, _msgSender());
+        }
+
+        uint256 count = encryptedChunks.length;
+        if (count == 0 || count > MAX_MESSAGE_CHUNKS) {
+            revert InvalidChunkCount(count);
+        }
+
+        _verifyInputProof(encryptedChunks, inputProof);
+
+        delete _tokenMessages[tokenId];
+        delete _publicMessages[tokenId];
+        bytes32[] storage chunks = _tokenMessageChunks[tokenId];
+        delete _tokenMessageChunks[tokenId];
+        for (uint256 index = 0; index < count; index++) {
+            chunks.push(encryptedChunks[index]);
+            persistAllowed[encryptedChunks[index]][_msgSender()] = true;
+        }
+
+        _clearViewers(tokenId);
+        emit MessageUpdated(tokenId, _msgSender());
+    }
+
+    /// @notice Makes a token's message publicly decryptable, e.g. to publish the answer of a puzzle.
+    /// @dev Irreversible for the current handles; a later `updateMessage` stores new, private ones.
+    /// @param tokenId Token whose message is published.
+    function revealPublicly(uint256 tokenId) external {
+        if (ownerOf(tokenId) != _msgSender()) {
+            revert NotTokenOwner(tokenId, _msgSender());
+        }
+        if (_publicMessages[tokenId]) {
+            revert MessageAlreadyRevealed(tokenId);
+        }
+
+        bytes32[] memory chunks = _messageChunks(tokenId);
+        for (uint256 index = 0; index < chunks.length; index++) {
+            isAllowedForDecryption[chunks[index]] = true;
+        }
+
+        _publicMessages[tokenId] = true;
+        emit MessageRevealed(tokenId, _msgSender());
+    }
+
+    /// @notice Whether a token's current message is publicly decryptable.
+    /// @param tokenId Token to check.
+    /// @return True once `revealPublicly` succeeded, until the message is updated.
+    function isMessagePublic(uint256 tokenId) external view returns (bool) {
+        ownerOf(tokenId);
+        return _publicMessages[tokenId];
+    }
+
+    /// @notice Stand-in for the KMS signature check of a public decryption.
+    /// @dev Mock decryption proofs carry no signatures, so only the message being public is checked.
+    /// @param tokenId Token whose message was decrypted.
+    /// @return Whether the token's current message is publicly decryptable.
+    function checkRevealedMessage(uint256 tokenId, bytes calldata, bytes calldata) external view returns (bool) {
+        ownerOf(tokenId);
+        return _publicMessages[tokenId];
+    }
+
+    /// @notice Lets another address decrypt the token's message and attributes.
+    /// @dev ACL grants cannot be revoked: the viewer keeps access to this ciphertext after transfers.
+    /// @param tokenId Token whose message is shared.
+    /// @param viewer Address granted read access.
+    function grantViewer(uint256 tokenId, address viewer) external {
+        if (ownerOf(tokenId) != _msgSender()) {
+            revert NotTokenOwner(tokenId, _msgSender());
+        }
+        if (viewer == address(0) || _isTokenViewer[tokenId][viewer]) {
+            revert InvalidViewer(tokenId, viewer);
+        }
+
+        bytes32 message = _tokenMessages[tokenId];
+        if (message != bytes32(0)) {
+            persistAllowed[message][viewer] = true;
+        }
+
+        bytes32[] storage chunks = _tokenMessageChunks[tokenId];
+        for (uint256 index = 0; index < chunks.length; index++) {
+            persistAllowed[chunks[index]][viewer] = true;
+        }
+        _allowAttributes(tokenId, viewer);
+
+        _tokenViewers[tokenId].push(viewer);
+        _isTokenViewer[tokenId][viewer] = true;
+        _viewerTokens[viewer].push(tokenId);
+
+        emit ViewerGranted(tokenId, _msgSender(), viewer);
+    }
+
+    /// @notice Lists the addresses granted read access to a token's message.
+    /// @param tokenId Token whose viewers are queried.
+    /// @return viewers Granted addresses, in grant order.
+    function getViewers(uint256 tokenId) external view returns (address[] memory viewers) {
+        ownerOf(tokenId);
+        return _tokenViewers[tokenId];
+    }
+
+    /// @notice Whether an address was granted read access to a token's message.
+    /// @param tokenId Token to check.
+    /// @param viewer Address to check.
+    /// @return True once `grantViewer` succeeded for this pair.
+    function isViewer(uint256 tokenId, address viewer) external view returns (bool) {
+        return _isTokenViewer[tokenId][viewer];
+    }
+
+    /// @notice Lists the tokens an address was granted read access to.
+    /// @dev Includes tokens the viewer has since come to own.
+    /// @param viewer Address to enumerate grants for.
+    /// @return tokens Token ids, in grant order.
+    function tokensSharedWith(address viewer) external view returns (uint256[] memory tokens) {
+        return _viewerTokens[viewer];
+    }
+
+    /// @notice Compares an attribute of a token with a public operand without revealing the attribute.
+    /// @dev Integer attributes support every comparison, boolean and address attributes only Eq and Ne.
+    ///      The mock result is decryptable by the caller, and by anyone when `publicResult` is set.
+    /// @param tokenId Token whose attribute is checked.
+    /// @param key Attribute key, the keccak256 hash of its name.
+    /// @param op Comparison applied as `attribute op operand`.
+    /// @param operand Public operand: an integer, 0 or 1 for booleans, or an address cast to uint256.
+    /// @param publicResult Whether anyone may decrypt the result.
+    /// @return proofId Identifier of the recorded proof.
+    function proveAttribute(uint256 tokenId, bytes32 key, Comparison op, uint256 operand, bool publicResult)
+        external
+        returns (uint256 proofId)
+    {
+        AttributeType fheType = _checkAttributeCondition(tokenId, key, op);
+        uint256 limit = fheType == AttributeType.Bool ? 1 : fheType == AttributeType.Address ? type(uint160).max : type(uint64).max;
+        if (operand > limit) {
+            revert InvalidOperand(key, operand);
+        }
+
+        bytes32[] memory lhs = new bytes32[](1);
+        lhs[0] = _tokenAttributes[tokenId][key];
+        bytes32 result = _recordMockComparison(lhs, new bytes32[](0), operand, op);
+        return _recordProof(tokenId, key, op, operand, false, publicResult, result);
+    }
+
+    /// @notice Compares an attribute of a token with a mock encrypted operand.
+    /// @dev Integer operands are encrypted as euint64, boolean operands as ebool and address operands as eaddress.
+    /// @param tokenId Token whose attribute is checked.
+    /// @param key Attribute key, the keccak256 hash of its name.
+    /// @param op Comparison applied as `attribute op operand`.
+    /// @param encryptedOperand Handle of the operand returned by the mock FHEVM instance.
+    /// @param inputProof Mock proof binding the handle to the caller and this contract.
+    /// @param publicResult Whether anyone may decrypt the result.
+    /// @return proofId Identifier of the recorded proof.
+    function proveAttributeEncrypted(
+        uint256 tokenId,
+        bytes32 key,
+        Comparison op,
+        bytes32 encryptedOperand,
+        bytes calldata inputProof,
+        bool publicResult
+    ) external returns (uint256 proofId) {
+        _checkAttributeCondition(tokenId, key, op);
+
+        bytes32[] memory rhs = new bytes32[](1);
+        rhs[0] = encryptedOperand;
+        _verifyInputProof(rhs, inputProof);
+
+        bytes32[] memory lhs = new bytes32[](1);
+        lhs[0] = _tokenAttributes[tokenId][key];
+        bytes32 result = _recordMockComparison(lhs, rhs, 0, op);
+        return _recordProof(tokenId, key, op, 0, true, publicResult, result);
+    }
+
+    /// @notice Checks whether a token's message equals a mock encrypted candidate.
+    /// @dev Messages spanning a different number of chunks are never equal.
+    /// @param tokenId Token whose message is checked.
+    /// @param encryptedChunks Handles for each chunk of the candidate message, sharing one input proof.
+    /// @param inputProof Mock proof binding the handles to the caller and this contract.
+    /// @param publicResult Whether anyone may decrypt the result.
+    /// @return proofId Identifier of the recorded proof.
+    function proveMessageEquals(
+        uint256 tokenId,
+        bytes32[] calldata encryptedChunks,
+        bytes calldata inputProof,
+        bool publicResult
+    ) external returns (uint256 proofId) {
+        _checkProver(tokenId);
+
+        uint256 count = encryptedChunks.length;
+        if (count == 0 || count > MAX_MESSAGE_CHUNKS) {
+            revert InvalidChunkCount(count);
+        }
+        _verifyInputProof(encryptedChunks, inputProof);
+
+        bytes32 result = _recordMockComparison(_messageChunks(tokenId), encryptedChunks, 0, Comparison.Eq);
+        return _recordProof(tokenId, MESSAGE_SUBJECT, Comparison.Eq, 0, true, publicResult, result);
+    }
+
+    /// @notice Returns a recorded condition proof.
+    /// @param proofId Identifier emitted in `ConditionProven`.
+    /// @return The proof, whose `result` handle decrypts to the outcome of the condition.
+    function getProof(uint256 proofId) external view returns (ConditionProof memory) {
+        if (proofId >= _proofs.length) {
+            revert UnknownProof(proofId);
+        }
+        return _proofs[proofId];
+    }
+
+    /// @notice Stand-in for the KMS signature check of a proof's public result.
+    /// @dev Mock decryption proofs carry no signatures, so only the result being public is checked.
+    /// @param proofId Proof whose result was decrypted.
+    /// @return Whether the proof's result is publicly decryptable.
+    function checkProofResult(uint256 proofId, bytes calldata, bytes calldata) external view returns (bool) {
+        if (proofId >= _proofs.length) {
+            revert UnknownProof(proofId);
+        }
+        return isAllowedForDecryption[_proofs[proofId].result];
+    }
+
+    /// @notice Mock-only: inputs of the comparison that produced a result handle.
+    /// @dev Lets the mock FHEVM instance compute the result from the plaintexts it stores.
+    ///      Returns empty arrays for handles no comparison produced.
+    /// @param result Result handle of a condition proof.
+    function getMockComparison(bytes32 result)
+        external
+        view
+        returns (bytes32[] memory lhs, bytes32[] memory rhs, uint256 operand, Comparison op)
+    {
+        MockComparison storage comparison = _mockComparisons[result];
+        return (comparison.lhs, comparison.rhs, comparison.operand, comparison.op);
+    }
+
+    /// @inheritdoc ERC721
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+
+        string memory metadataURI = _tokenMetadataURIs[tokenId];
+        if (bytes(metadataURI).length > 0) {
+            return metadataURI;
+        }
+
+        return super.tokenURI(tokenId);
+    }
+
+    /// @notice Lists all token ids owned by an address.
+    /// @param owner Address to enumerate tokens for.
+    /// @return tokens List of token ids owned by `owner`.
+    function tokensOfOwner(address owner) external view returns (uint256[] memory tokens) {
+        uint256 balance = balanceOf(owner);
+        tokens = new uint256[](balance);
+        for (uint256 index = 0; index < balance; index++) {
+            tokens[index] = tokenOfOwnerByIndex(owner, index);
+        }
+    }
+
+    /// @notice Updates the base token URI used for metadata.
+    /// @param newBaseURI New base URI string.
+    function setBaseTokenURI(string calldata newBaseURI) external onlyOwner {
+        _baseTokenURI = newBaseURI;
+    }
+
+    /// @inheritdoc ERC721
+    function _baseURI() internal view override returns (string memory) {
+        return _baseTokenURI;
+    }
+
+    /// @dev Stores each attribute handle by key and grants the minter access.
+    function _storeAttributes(uint256 tokenId, bytes32[] calldata encryptedAttributes) private {
+        uint256 count = _attributeSchema.length;
+        if (encryptedAttributes.length != count) {
+            revert InvalidAttributeCount(encryptedAttributes.length, count);
+        }
+
+        for (uint256 index = 0; index < count; index++) {
+            _tokenAttributes[tokenId][_attributeSchema[index].key] = encryptedAttributes[index];
+            persistAllowed[encryptedAttributes[index]][_msgSender()] = true;
+        }
+    }
+
+    /// @dev Grants an account access to every attribute a token carries.
+    function _allowAttributes(uint256 tokenId, address account) private {
+        for (uint256 index = 0; index < _attributeSchema.length; index++) {
+            bytes32 handle = _tokenAttributes[tokenId][_attributeSchema[index].key];
+            if (handle != bytes32(0)) {
+                persistAllowed[handle][account] = true;
+            }
+        }
+    }
+
+    /// @dev Largest value an integer attribute type can hold.
+    function _maxValue(AttributeType fheType) private pure returns (uint64) {
+        if (fheType == AttributeType.Uint8) {
+            return type(uint8).max;
+        }
+        if (fheType == AttributeType.Uint32) {
+            return type(uint32).max;
+        }
+        return type(uint64).max;
+    }
+
+    /// @dev Returns the message chunks of a token, wrapping the single message of tokens minted through `mint`.
+    function _messageChunks(uint256 tokenId) private view returns (bytes32[] memory chunks) {
+        chunks = _tokenMessageChunks[tokenId];
+        if (chunks.length == 0) {
+            bytes32 message = _tokenMessages[tokenId];
+            if (message == bytes32(0)) {
+                revert AttributeNotInitialized(tokenId);
+            }
+
+            chunks = new bytes32[](1);
+            chunks[0] = message;
+        }
+    }
+
+    /// @dev Only the token owner and its viewers may compute conditions on data they can already decrypt.
+    function _checkProver(uint256 tokenId) private view {
+        if (ownerOf(tokenId) != _msgSender() && !_isTokenViewer[tokenId][_msgSender()]) {
+            revert NotAllowedToProve(tokenId, _msgSender());
+        }
+    }
+
+    /// @dev Checks the caller, the attribute and the comparison of an attribute condition.
+    function _checkAttributeCondition(uint256 tokenId, bytes32 key, Comparison op) private view returns (AttributeType) {
+        _checkProver(tokenId);
+
+        uint256 position = _attributePositions[key];
+        if (position == 0) {
+            revert UnknownAttribute(key);
+        }
+        if (_tokenAttributes[tokenId][key] == bytes32(0)) {
+            revert AttributeNotInitialized(tokenId);
+        }
+
+        AttributeType fheType = _attributeSchema[position - 1].fheType;
+        bool ordered = fheType != AttributeType.Bool && fheType != AttributeType.Address;
+        if (!ordered && op != Comparison.Eq && op != Comparison.Ne) {
+            revert UnsupportedComparison(key, op);
+        }
+        return fheType;
+    }
+
+    /// @dev Derives a fresh ebool handle for the next proof and records the inputs it is computed from.
+    function _recordMockComparison(bytes32[] memory lhs, bytes32[] memory rhs, uint256 operand, Comparison op)
+        private
+        returns (bytes32 result)
+    {
+        // Trailing bytes hold the FHE type (0 for ebool) and the handle version, as in real handles
+        result = keccak256(abi.encode(address(this), block.chainid, _proofs.length)) & ~bytes32(uint256(0xffff));
+        _mockComparisons[result] = MockComparison(lhs, rhs, operand, op);
+    }
+
+    /// @dev Grants the caller (and optionally everyone) access to a result and stores the proof.
+    function _recordProof(
+        uint256 tokenId,
+        bytes32 subject,
+        Comparison op,
+        uint256 operand,
+        bool encryptedOperand,
+        bool publicResult,
+        bytes32 result
+    ) private returns (uint256 proofId) {
+        persistAllowed[result][_msgSender()] = true;
+        if (publicResult) {
+            isAllowedForDecryption[result] = true;
+        }
+
+        proofId = _proofs.length;
+        _proofs.push(ConditionProof(tokenId, _msgSender(), subject, op, operand, encryptedOperand, publicResult, result, block.number));
+        emit ConditionProven(proofId, tokenId, _msgSender(), subject, op, publicResult);
+    }
+
+    /// @dev Forgets every viewer of a token, removing the token from each viewer's list.
+    function _clearViewers(uint256 tokenId) private {
+        address[] storage viewers = _tokenViewers[tokenId];
+        for (uint256 index = 0; index < viewers.length; index++) {
+            address viewer = viewers[index];
+            _isTokenViewer[tokenId][viewer] = false;
+
+            uint256[] storage tokens = _viewerTokens[viewer];
+            for (uint256 position = 0; position < tokens.length; position++) {
+                if (tokens[position] == tokenId) {
+                    tokens[position] = tokens[tokens.length - 1];
+                    tokens.pop();
+                    break;
+                }
+            }
+        }
+        delete _tokenViewers[tokenId];
+    }
+
+    /// @dev Mirrors `FHE.fromExternal`: the mock proof is keccak256(handles, caller, contract).
+    function _verifyInputProof(bytes32[] memory handles, bytes calldata inputProof) private view {
+        bytes32 expected = keccak256(abi.encodePacked(handles, _msgSender(), address(this)));
+        if (inputProof.length != 32 || bytes32(inputProof) != expected) {
+            revert InvalidInputProof();
+        }
+    }
+
+    /// @inheritdoc ERC721
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        address previousOwner = super._update(to, tokenId, auth);
+
+        if (to != address(0)) {
+            bytes32 message = _tokenMessages[tokenId];
+            if (message != bytes32(0)) {
+                persistAllowed[message][to] = true;
+            }
+
+            bytes32[] storage chunks = _tokenMessageChunks[tokenId];
+            for (uint256 index = 0; index < chunks.length; index++) {
+                persistAllowed[chunks[index]][to] = true;
+            }
+            _allowAttributes(tokenId, to);
+        }
+
+        return previousOwner;
+    }
+}
@@ -1,10 +1,27 @@
+import { QueryClientProvider } from '@tanstack/react-query';
 import { HiddenNFTApp } from './components/HiddenNFTApp';
+import { WalletProvider } from './components/WalletProvider';
+import { FheProvider } from './components/FheProvider';
+import { ToastProvider } from './components/ToastProvider';
+import { useDeployment } from './hooks/useDeployment';
+import { queryClient } from './utils/nftQueries';
 
 function App() {
+  const { key } = useDeployment();
+
   return (
-    <div style={{ minHeight: '100vh', backgroundColor: '#f9fafb' }}>
-      <HiddenNFTApp />
-    </div>
+    <QueryClientProvider client={queryClient}>
+      <ToastProvider>
+        <WalletProvider>
+          <FheProvider>
+            <div style={{ minHeight: '100vh', backgroundColor: '#f9fafb' }}>
+              {/* Remount on deployment change so no state leaks between contracts */}
+              <HiddenNFTApp key={key} />
+            </div>
+          </FheProvider>
+        </WalletProvider>
+      </ToastProvider>
+    </QueryClientProvider>
   );
 }
 
@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { Link } from './Link';
+import { useTransactions } from '../hooks/useTransactions';
+import { useDeployment } from '../hooks/useDeployment';
+import { explorerLink } from '../config/networks';
+import { clearFinished, ensureMonitor, isMonitored, type TrackedTransaction, type TxStatus } from '../utils/txTracker';
+import '../styles/ActivityDrawer.css';
+
+const STATUS_LABELS: Record<TxStatus, string> = {
+  pending: '⏳ Pending',
+  confirmed: '✅ Confirmed',
+  failed: '❌ Failed',
+  replaced: '🔁 Replaced',
+  dropped: '🗑️ Dropped',
+};
+
+function describe(tx: TrackedTransaction) {
+  const token = tx.tokenId !== null ? <Link to={`/token/${tx.tokenId}`}>NFT #{tx.tokenId}</Link> : 'NFT';
+  if (tx.kind === 'mint') {
+    return <>Mint {token}</>;
+  }
+  if (tx.kind === 'schema') {
+    return <>Declare attribute <code>{tx.params.name}</code> ({tx.params.type})</>;
+  }
+  if (tx.kind === 'reveal') {
+    return <>Reveal the message of {token} publicly</>;
+  }
+  if (tx.kind === 'proof') {
+    return <>Prove a condition on {token}</>;
+  }
+  if (tx.kind === 'update') {
+    return <>Re-encrypt the message of {token}</>;
+  }
+  if (tx.kind === 'share') {
+    const viewer = tx.params.viewer;
+    return <>Share {token}{viewer && <> with <Link to={`/address/${viewer}`}>{viewer.slice(0, 6)}...{viewer.slice(-4)}</Link></>}</>;
+  }
+  const to = tx.params.to;
+  return <>Transfer {token}{to && <> to <Link to={`/address/${to}`}>{to.slice(0, 6)}...{to.slice(-4)}</Link></>}</>;
+}
+
+/**
+ * Header button and side drawer listing the transactions submitted from this browser
+ */
+export function ActivityDrawer() {
+  const { key, network } = useDeployment();
+  const transactions = useTransactions().filter(tx => tx.deployment === key);
+  const [open, setOpen] = useState(false);
+  const pendingCount = transactions.filter(tx => tx.status === 'pending').length;
+
+  // Resume monitoring transactions left pending by a previous visit
+  useEffect(() => {
+    ensureMonitor();
+  }, [key]);
+
+  return (
+    <>
+      <button className="btn btn-small activity-toggle" onClick={() => setOpen(prev => !prev)}>
+        🧾 Activity{pendingCount > 0 && <span className="activity-count">{pendingCount}</span>}
+      </button>
+
+      {open && (
+        <div className="activity-backdrop" onClick={() => setOpen(false)}>
+          <aside className="activity-drawer" onClick={event => event.stopPropagation()}>
+            <div className="activity-header">
+              <h3>Transactions</h3>
+              <button className="btn btn-small" onClick={() => setOpen(false)}>✕</button>
+            </div>
+
+            {transactions.length === 0 ? (
+              <p className="activity-empty">No transactions sent from this browser on {network.chain.name} yet.</p>
+            ) : (
+              <ul className="activity-list">
+                {transactions.map(tx => {
+                  const txLink = explorerLink(network, 'tx', tx.hash);
+                  const replacementLink = tx.replacedBy ? explorerLink(network, 'tx', tx.replacedBy) : null;
+                  return (
+                    <li key={tx.hash} className={`activity-item activity-${tx.status}`}>
+                      <div className="activity-title">{describe(tx)}</div>
+                      <div className="activity-meta">
+                        <span>{STATUS_LABELS[tx.status]}</span>
+                        {tx.status === 'confirmed' && isMonitored(tx) && (
+                          <span>{tx.confirmations}/{network.confirmations} confirmations</span>
+                        )}
+                        <span>{new Date(tx.submittedAt).toLocaleString()}</span>
+                      </div>
+                      <div className="activity-links">
+                        {txLink ? (
+                          <a href={txLink} target="_blank" rel="noopener noreferrer">View on explorer ↗</a>
+                        ) : (
+                          <code>{tx.hash.slice(0, 10)}...{tx.hash.slice(-8)}</code>
+                        )}
+                        {replacementLink && (
+                          <a href={replacementLink} target="_blank" rel="noopener noreferrer">Replacement ↗</a>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            {transactions.some(tx => !isMonitored(tx)) && (
+              <button className="btn btn-small" onClick={clearFinished}>Clear finished</button>
+            )}
+          </aside>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,148 @@
+import { useQuery } from '@tanstack/react-query';
+import { zeroAddress, type Address } from 'viem';
+import { Link } from './Link';
+import { useDeployment } from '../hooks/useDeployment';
+import { explorerLink } from '../config/networks';
+import { tokenActivityQuery } from '../utils/nftQueries';
+import { getErrorMessage } from '../utils/errors';
+import type { IndexedEvent } from '../utils/eventIndexer';
+import '../styles/ActivityTimeline.css';
+
+interface ActivityTimelineProps {
+  tokenId: bigint;
+  owner: Address;
+  /** Whether the token carries an encrypted message past owners may still read */
+  encrypted: boolean;
+}
+
+function AddressLink({ address }: { address: Address }) {
+  return <Link to={`/address/${address}`}>{address.slice(0, 6)}...{address.slice(-4)}</Link>;
+}
+
+function describe(event: IndexedEvent) {
+  switch (event.kind) {
+    case 'Transfer':
+      if (event.from === zeroAddress) {
+        return { icon: '✨', text: <>Minted to <AddressLink address={event.to} /></> };
+      }
+      return { icon: '🔁', text: <>Transferred from <AddressLink address={event.from} /> to <AddressLink address={event.to} /></> };
+    case 'Approval':
+      if (event.approved === zeroAddress) {
+        return { icon: '🚫', text: <>Approval cleared by <AddressLink address={event.owner} /></> };
+      }
+      return { icon: '✅', text: <><AddressLink address={event.owner} /> approved <AddressLink address={event.approved} /></> };
+    case 'ApprovalForAll':
+      return event.approved
+        ? { icon: '🗝️', text: <><AddressLink address={event.owner} /> made <AddressLink address={event.operator} /> operator of all tokens</> }
+        : { icon: '🔒', text: <><AddressLink address={event.owner} /> revoked operator <AddressLink address={event.operator} /></> };
+    case 'ViewerGranted':
+      return { icon: '🤝', text: <><AddressLink address={event.owner} /> let <AddressLink address={event.viewer} /> decrypt the message</> };
+    case 'MessageUpdated':
+      return { icon: '🔄', text: <><AddressLink address={event.owner} /> sealed a new message</> };
+    case 'MessageRevealed':
+      return { icon: '📢', text: <><AddressLink address={event.owner} /> revealed the message publicly</> };
+  }
+}
+
+/**
+ * Mint, transfers and approvals of a token, from the local event index
+ */
+export function ActivityTimeline({ tokenId, owner, encrypted }: ActivityTimelineProps) {
+  const { network } = useDeployment();
+  const activity = useQuery(tokenActivityQuery(tokenId));
+
+  if (activity.isPending) {
+    return <div className="timeline-status"><span className="spinner"></span> Indexing on-chain history...</div>;
+  }
+  if (activity.isError) {
+    return (
+      <div className="timeline-status">
+        ❌ {getErrorMessage(activity.error, 'Failed to load history')}{' '}
+        <button className="btn btn-small" onClick={() => activity.refetch()}>Retry</button>
+      </div>
+    );
+  }
+
+  // FHE.allow on transfer or grant is never revoked, so everyone who held or was shared the
+  // current ciphertext can still decrypt it; a message update starts a fresh ciphertext
+  let sealedBy: Address[] = [];
+  let currentFrom = 0;
+  for (const [index, event] of activity.data.entries()) {
+    if (event.kind === 'MessageUpdated') {
+      sealedBy = [event.owner];
+      currentFrom = index + 1;
+    }
+  }
+  const currentMessage = activity.data.slice(currentFrom);
+  const notOwner = (addresses: Address[]) =>
+    [...new Set(addresses)].filter(address => address.toLowerCase() !== owner.toLowerCase());
+  const pastOwners = notOwner([
+    ...sealedBy,
+    ...currentMessage.flatMap(event => (event.kind === 'Transfer' ? [event.to] : [])),
+  ]);
+  const viewers = notOwner(currentMessage.flatMap(event => (event.kind === 'ViewerGranted' ? [event.viewer] : [])));
+
+  return (
+    <div className="timeline">
+      <h3>History</h3>
+
+      {encrypted && pastOwners.length > 0 && (
+        <div className="info-box">
+          <span className="info-icon">🔑</span>
+          <span>
+            {pastOwners.length} previous owner{pastOwners.length === 1 ? '' : 's'} can still decrypt this message:{' '}
+            {pastOwners.map((address, index) => (
+              <span key={address}>
+                {index > 0 && ', '}
+                <AddressLink address={address} />
+              </span>
+            ))}
+          </span>
+        </div>
+      )}
+
+      {encrypted && viewers.length > 0 && (
+        <div className="info-box">
+          <span className="info-icon">🤝</span>
+          <span>
+            Shared with {viewers.length} address{viewers.length === 1 ? '' : 'es'} that can decrypt this message:{' '}
+            {viewers.map((address, index) => (
+              <span key={address}>
+                {index > 0 && ', '}
+                <AddressLink address={address} />
+              </span>
+            ))}
+          </span>
+        </div>
+      )}
+
+      {activity.data.length === 0 ? (
+        <div className="timeline-status">No indexed events yet</div>
+      ) : (
+        <ol className="timeline-list">
+          {[...activity.data].reverse().map(event => {
+            const { icon, text } = describe(event);
+            const txLink = explorerLink(network, 'tx', event.txHash);
+            return (
+              <li key={`${event.txHash}:${event.logIndex}`} className="timeline-item">
+                <span className="timeline-icon">{icon}</span>
+                <div className="timeline-body">
+                  <div>{text}</div>
+                  <div className="timeline-meta">
+                    {event.timestamp ? new Date(event.timestamp * 1000).toLocaleString() : `Block ${event.blockNumber}`}
+                    {txLink && (
+                      <>
+                        {' • '}
+                        <a href={txLink} target="_blank" rel="noopener noreferrer">View transaction ↗</a>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
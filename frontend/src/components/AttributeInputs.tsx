@@ -0,0 +1,50 @@
+import { defaultAttributeInput, isIntegerAttribute, type AttributeDefinition } from '../utils/attributeSchema';
+import '../styles/Attributes.css';
+
+interface AttributeInputsProps {
+  schema: AttributeDefinition[];
+  /** Raw form values by attribute key */
+  values: Record<string, string>;
+  onChange: (key: string, value: string) => void;
+  disabled: boolean;
+}
+
+/**
+ * Mint form fields for the collection's encrypted attributes, one per schema entry
+ */
+export function AttributeInputs({ schema, values, onChange, disabled }: AttributeInputsProps) {
+  return (
+    <div className="attribute-inputs">
+      {schema.map(definition => {
+        const value = values[definition.key] ?? defaultAttributeInput(definition);
+        return (
+          <label key={definition.key} className="attribute-input">
+            <span className="attribute-name">
+              {definition.name} <code className="attribute-type">{definition.type}</code>
+            </span>
+            {definition.type === 'ebool' ? (
+              <select
+                className="text-input"
+                value={value}
+                onChange={event => onChange(definition.key, event.target.value)}
+                disabled={disabled}
+              >
+                <option value="false">No</option>
+                <option value="true">Yes</option>
+              </select>
+            ) : (
+              <input
+                className="text-input"
+                value={value}
+                onChange={event => onChange(definition.key, event.target.value)}
+                placeholder={isIntegerAttribute(definition.type) ? `${definition.min} – ${definition.max}` : '0x...'}
+                inputMode={isIntegerAttribute(definition.type) ? 'numeric' : undefined}
+                disabled={disabled}
+              />
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query';
+import { attributeSchemaQuery } from '../utils/nftQueries';
+import type { AttributeDefinition } from '../utils/attributeSchema';
+import '../styles/Attributes.css';
+
+interface AttributeListProps {
+  /** Revealed values by attribute key */
+  revealed: Record<string, string>;
+  /** Key of the attribute being decrypted, if any */
+  revealing: string | null;
+  canReveal: boolean;
+  onReveal: (definition: AttributeDefinition) => void;
+}
+
+/**
+ * Encrypted attributes of a token, each revealed on its own
+ */
+export function AttributeList({ revealed, revealing, canReveal, onReveal }: AttributeListProps) {
+  const { data: schema } = useQuery(attributeSchemaQuery());
+
+  if (!schema || schema.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="attribute-list">
+      {schema.map(definition => (
+        <li key={definition.key} className="attribute-row">
+          <span className="attribute-name">{definition.name}</span>
+          {revealed[definition.key] !== undefined ? (
+            <span className="attribute-value">🔓 {revealed[definition.key]}</span>
+          ) : (
+            <button
+              className="btn btn-small attribute-reveal"
+              onClick={() => onReveal(definition)}
+              disabled={revealing !== null || !canReveal}
+              title={`Decrypt ${definition.name} (${definition.type})`}
+            >
+              {revealing === definition.key ? <span className="spinner"></span> : '🔒 Reveal'}
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
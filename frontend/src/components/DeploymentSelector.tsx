@@ -0,0 +1,38 @@
+import { listDeployments } from '../config/networks';
+import { setActiveDeployment } from '../utils/activeDeployment';
+import { useDeployment } from '../hooks/useDeployment';
+import '../styles/DeploymentSelector.css';
+
+/**
+ * Switch between the registered deployments (hidden when there is only one)
+ */
+export function DeploymentSelector() {
+  const active = useDeployment();
+  const deployments = listDeployments();
+
+  if (deployments.length < 2) {
+    return null;
+  }
+
+  // Group deployments under their network
+  const networks = [...new Map(deployments.map(entry => [entry.network.chain.id, entry.network])).values()];
+
+  return (
+    <label className="deployment-selector">
+      <span className="deployment-selector-label">Deployment</span>
+      <select value={active.key} onChange={event => setActiveDeployment(event.target.value)}>
+        {networks.map(network => (
+          <optgroup key={network.chain.id} label={network.chain.name}>
+            {deployments
+              .filter(entry => entry.network === network)
+              .map(entry => (
+                <option key={entry.key} value={entry.key}>
+                  {entry.deployment.label}
+                </option>
+              ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+}
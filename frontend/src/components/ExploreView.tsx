@@ -0,0 +1,118 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { IpfsImage } from './IpfsImage';
+import { Link } from './Link';
+import { PublicMessageBox } from './PublicMessage';
+import { collectionQuery, tokenSummaryQuery } from '../utils/nftQueries';
+import { getErrorMessage } from '../utils/errors';
+import '../styles/ExploreView.css';
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function ExploreItem({ tokenId }: { tokenId: bigint }) {
+  const { data: token, isError } = useQuery(tokenSummaryQuery(tokenId));
+
+  return (
+    <div className="nft-item">
+      <Link to={`/token/${tokenId}`} className="nft-image-wrapper explore-image-link">
+        {token ? (
+          <IpfsImage uri={token.imageUri} alt={`NFT #${tokenId}`} className="nft-image" />
+        ) : (
+          <div className="nft-image ipfs-image-placeholder">
+            {isError ? 'Unavailable' : <span className="spinner"></span>}
+          </div>
+        )}
+        <div className="nft-badge">#{tokenId.toString()}</div>
+      </Link>
+
+      <div className="nft-info">
+        <Link to={`/token/${tokenId}`} className="nft-title explore-title">
+          NFT #{tokenId.toString()}
+        </Link>
+        {token && (
+          <>
+            <div className="explore-owner">
+              Owner: <Link to={`/address/${token.owner}`}>{shortAddress(token.owner)}</Link>
+            </div>
+            {token.messagePublic ? (
+              <PublicMessageBox tokenId={tokenId} />
+            ) : (
+              <div className={`message-box ${token.encryptedChunks > 0 ? 'encrypted' : ''}`}>
+                <span className="lock-icon">{token.encryptedChunks > 0 ? '🔒' : '📭'}</span>
+                <span>{token.encryptedChunks > 0 ? 'Encrypted message' : 'No message'}</span>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Every token of the collection, newest first, through the ERC-721 enumeration
+ */
+export function ExploreView() {
+  const collection = useInfiniteQuery(collectionQuery());
+  const supply = collection.data?.pages[0]?.total ?? null;
+  const tokenIds = collection.data?.pages.flatMap(page => page.tokenIds) ?? [];
+
+  if (collection.isPending) {
+    return (
+      <div className="empty-state">
+        <span className="spinner" style={{ width: '40px', height: '40px' }}></span>
+        <h3>Loading Collection...</h3>
+        <p>Fetching from blockchain</p>
+      </div>
+    );
+  }
+
+  if (supply === 0n) {
+    return (
+      <div className="empty-state">
+        <div className="empty-icon">🎨</div>
+        <h3>No NFTs Yet</h3>
+        <p>Nobody has minted in this collection yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {supply !== null && (
+        <div className="explore-summary">{supply.toString()} token{supply === 1n ? '' : 's'} in the collection</div>
+      )}
+
+      <div className="gallery-grid">
+        {tokenIds.map(tokenId => (
+          <ExploreItem key={tokenId.toString()} tokenId={tokenId} />
+        ))}
+      </div>
+
+      {collection.isError && (
+        <div className="gallery-status">
+          <div className="status-message error">❌ {getErrorMessage(collection.error, 'Failed to load collection')}</div>
+        </div>
+      )}
+
+      {collection.hasNextPage && (
+        <div className="gallery-more">
+          <button
+            className="btn btn-primary"
+            onClick={() => collection.fetchNextPage()}
+            disabled={collection.isFetchingNextPage}
+          >
+            {collection.isFetchingNextPage ? (
+              <>
+                <span className="spinner"></span> Loading...
+              </>
+            ) : (
+              <>Load more</>
+            )}
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState, useEffect, useMemo, useCallback, type ReactNode } from 'react';
+import { FheContext, type FheContextValue, type FheStatus } from '../hooks/useFhe';
+import { useWallet } from '../hooks/useWallet';
+import { useDeployment } from '../hooks/useDeployment';
+import { initializeFHE, resetFHE } from '../utils/fheEncryption';
+import { onFheProgress } from '../utils/fheWorkerClient';
+import { getErrorMessage } from '../utils/errors';
+
+/**
+ * Single FHEVM instance shared by the whole app
+ * Initializes once a wallet is connected on the right chain and starts over whenever
+ * the account, chain or deployment changes.
+ */
+export function FheProvider({ children }: { children: ReactNode }) {
+  const { address, chainId, isConnected, isWrongNetwork } = useWallet();
+  const { key } = useDeployment();
+  const [status, setStatus] = useState<FheStatus>('idle');
+  const [progress, setProgress] = useState<FheContextValue['progress']>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    return onFheProgress((stage, value) => setProgress({ stage, value }));
+  }, []);
+
+  useEffect(() => {
+    // The instance and its decrypt keypairs are bound to one account, chain and contract
+    resetFHE();
+    setProgress(null);
+    setError(null);
+
+    if (!isConnected || isWrongNetwork) {
+      setStatus('idle');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('loading');
+    initializeFHE()
+      .then(() => {
+        if (!cancelled) setStatus('ready');
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setStatus('error');
+        setError(getErrorMessage(err, 'FHE initialization failed'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chainId, key, isConnected, isWrongNetwork, attempt]);
+
+  const retry = useCallback(() => setAttempt(prev => prev + 1), []);
+
+  const value = useMemo<FheContextValue>(
+    () => ({ status, progress, error, retry }),
+    [status, progress, error, retry]
+  );
+
+  return <FheContext.Provider value={value}>{children}</FheContext.Provider>;
+}
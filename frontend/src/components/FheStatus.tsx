@@ -0,0 +1,40 @@
+import { useFhe } from '../hooks/useFhe';
+import type { FheInitStage } from '../workers/fheProtocol';
+import '../styles/FheStatus.css';
+
+const STAGE_LABELS: Record<FheInitStage, string> = {
+  wasm: 'Loading FHE runtime...',
+  keys: 'Fetching network keys...',
+  ready: 'Finishing up...',
+};
+
+/**
+ * Shows FHE initialization progress, or the error with a retry button
+ */
+export function FheStatus() {
+  const { status, progress, error, retry } = useFhe();
+
+  if (status === 'idle' || status === 'ready') {
+    return null;
+  }
+
+  if (status === 'error') {
+    return (
+      <div className="fhe-status fhe-status-error" role="alert">
+        <span>⚠️ FHE initialization failed: {error}</span>
+        <button type="button" className="btn btn-small" onClick={retry}>
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fhe-status">
+      <span>🔐 {progress ? STAGE_LABELS[progress.stage] : 'Starting FHE worker...'}</span>
+      <div className="fhe-progress">
+        <div className="fhe-progress-bar" style={{ width: `${Math.round((progress?.value ?? 0) * 100)}%` }} />
+      </div>
+    </div>
+  );
+}
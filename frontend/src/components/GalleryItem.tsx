@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Address } from 'viem';
+import { IpfsImage } from './IpfsImage';
+import { SharePanel } from './SharePanel';
+import { AttributeList } from './AttributeList';
+import { PublicMessageBox, PublicRevealButton } from './PublicMessage';
+import type { AttributeDefinition } from '../utils/attributeSchema';
+import { imageUriQuery, messagePublicQuery } from '../utils/nftQueries';
+
+interface GalleryItemProps {
+  tokenId: bigint;
+  decrypted?: string;
+  isRevealing: boolean;
+  /** Revealing needs a connected wallet on the right chain */
+  canReveal: boolean;
+  revealHint?: string;
+  onReveal: () => void;
+  /** Revealed attribute values by key */
+  revealedAttributes?: Record<string, string>;
+  /** Key of the attribute being decrypted, if any */
+  revealingAttribute: string | null;
+  onRevealAttribute: (definition: AttributeDefinition) => void;
+  /** Connected owner, set when the token's message may be shared from this item */
+  shareOwner?: Address;
+}
+
+/**
+ * One token of the gallery, its image URI read through the shared query cache
+ */
+export function GalleryItem({
+  tokenId,
+  decrypted,
+  isRevealing,
+  canReveal,
+  revealHint,
+  onReveal,
+  revealedAttributes = {},
+  revealingAttribute,
+  onRevealAttribute,
+  shareOwner,
+}: GalleryItemProps) {
+  const imageUri = useQuery(imageUriQuery(tokenId));
+  const { data: messagePublic = false } = useQuery(messagePublicQuery(tokenId));
+  const [sharing, setSharing] = useState(false);
+
+  return (
+    <div className="nft-item">
+      <div className="nft-image-wrapper">
+        {imageUri.data !== undefined ? (
+          <IpfsImage uri={imageUri.data} alt={`NFT #${tokenId}`} className="nft-image" />
+        ) : (
+          <div className="nft-image ipfs-image-placeholder">
+            {imageUri.isError ? 'Image unavailable' : <span className="spinner"></span>}
+          </div>
+        )}
+        <div className="nft-badge">#{tokenId.toString()}</div>
+      </div>
+
+      <div className="nft-info">
+        <div className="nft-title">NFT #{tokenId.toString()}</div>
+
+        <div className="message-section">
+          {decrypted ? (
+            <div className="message-box decrypted">
+              <span className="lock-icon">🔓</span>
+              <span>{decrypted}</span>
+            </div>
+          ) : messagePublic ? (
+            <PublicMessageBox tokenId={tokenId} />
+          ) : (
+            <div className="message-box encrypted">
+              <span className="lock-icon">🔒</span>
+              <span>Message hidden</span>
+            </div>
+          )}
+        </div>
+
+        <button
+          className={`btn btn-small ${decrypted ? 'btn-success' : 'btn-primary'}`}
+          onClick={onReveal}
+          disabled={isRevealing || (!decrypted && !canReveal)}
+          title={canReveal ? undefined : revealHint}
+        >
+          {isRevealing ? (
+            <>
+              <span className="spinner"></span> Revealing...
+            </>
+          ) : decrypted ? (
+            <>✅ Revealed</>
+          ) : (
+            <>🔓 Reveal</>
+          )}
+        </button>
+
+        <AttributeList
+          revealed={revealedAttributes}
+          revealing={revealingAttribute}
+          canReveal={canReveal}
+          onReveal={onRevealAttribute}
+        />
+
+        {shareOwner && (
+          <>
+            <button className="btn btn-small share-toggle" onClick={() => setSharing(prev => !prev)}>
+              {sharing ? 'Close' : '🤝 Share access'}
+            </button>
+            {sharing && <SharePanel tokenId={tokenId} owner={shareOwner} />}
+            {!messagePublic && <PublicRevealButton tokenId={tokenId} />}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { SimpleWalletButton } from './SimpleWalletButton';
+import { DeploymentSelector } from './DeploymentSelector';
+import { ActivityDrawer } from './ActivityDrawer';
 import '../styles/Header.css';
 
 export function Header() {
@@ -12,7 +14,11 @@ export function Header() {
               <p className="header-subtitle">Mint encrypted collectibles and reveal attributes securely</p>
             </div>
           </div>
-          <SimpleWalletButton />
+          <div className="header-right">
+            <DeploymentSelector />
+            <ActivityDrawer />
+            <SimpleWalletButton />
+          </div>
         </div>
       </div>
     </header>
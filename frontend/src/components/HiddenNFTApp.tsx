@@ -1,26 +1,75 @@
 import { useState, useEffect } from 'react';
-import { BrowserProvider, Contract } from 'ethers';
+import { isAddress, isAddressEqual, zeroAddress, type Address } from 'viem';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Header } from './Header';
 import { ImageUpload } from './ImageUpload';
-import { uploadImage, getImageUrl } from '../utils/imageUpload';
-import { encryptMessage, initializeFHE, decryptUint256 } from '../utils/fheEncryption';
-import { useSimpleWallet } from '../hooks/useSimpleWallet';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import { VaultPanel } from './VaultPanel';
+import { GalleryItem } from './GalleryItem';
+import { NetworkBanner } from './NetworkBanner';
+import { FheStatus } from './FheStatus';
+import { WatchAddressBar } from './WatchAddressBar';
+import { ExploreView } from './ExploreView';
+import { TokenPage } from './TokenPage';
+import { VerifierPage } from './VerifierPage';
+import { ProofPage } from './ProofPage';
+import { Link } from './Link';
+import { AttributeInputs } from './AttributeInputs';
+import { SchemaEditor } from './SchemaEditor';
+import { uploadImage, uploadMetadata, isOnChainStorage, type MetadataUploadResult } from '../utils/imageUpload';
+import { buildMetadata, DEFAULT_NFT_NAME } from '../utils/nftMetadata';
+import {
+  encryptMessage,
+  encryptToken,
+  decryptHandles,
+  decryptUint256Handles,
+} from '../utils/fheEncryption';
+import { decode, byteLength, truncateToBytes, maxMessageBytes, LEGACY_MAX_MESSAGE_CHUNKS, MAX_MESSAGE_BYTES } from '../utils/messageCodec';
+import { isVaultUnlocked, unlockVault, saveMessage, loadMessage } from '../utils/messageVault';
+import { useWallet } from '../hooks/useWallet';
+import { useDeployment } from '../hooks/useDeployment';
+import { useRoute } from '../hooks/useRoute';
+import { useTransferSubscription } from '../hooks/useTransferSubscription';
+import { navigate } from '../utils/router';
+import {
+  defaultAttributeInput,
+  formatAttributeValue,
+  toEncryptInput,
+  type AttributeDefinition,
+} from '../utils/attributeSchema';
+import { explorerLink } from '../config/networks';
+import * as nftService from '../utils/nftService';
+import type { EncryptInput } from '../workers/fheProtocol';
+import {
+  attributeSchemaQuery,
+  collectionOwnerQuery,
+  ownedTokensQuery,
+  sharedTokensQuery,
+  invalidateAfterMint,
+  invalidateAfterTransfer,
+  invalidateAfterMessageUpdate,
+} from '../utils/nftQueries';
+import { describeDecryptError, getErrorMessage } from '../utils/errors';
 import '../styles/HiddenNFTAppV2.css';
 
 type DecryptedMap = Record<string, string>;
-type NFTItem = {
-  tokenId: number;
-  owner: string;
-  imageUri: string;
-  message: string;
-};
+
+const GALLERY_PAGE_SIZE = 12;
 
 export function HiddenNFTApp() {
-  const wallet = useSimpleWallet();
+  const wallet = useWallet();
+  const { network, deployment } = useDeployment();
+  const contractAddress = deployment.contracts.hiddenAttributeNFT;
+  const contractLink = explorerLink(network, 'address', contractAddress);
+  // The original contract stores a single chunk, see DeploymentConfig.legacy
+  const legacy = deployment.legacy === true;
+  const mintMaxBytes = legacy ? maxMessageBytes(LEGACY_MAX_MESSAGE_CHUNKS) : MAX_MESSAGE_BYTES;
+  const queryClient = useQueryClient();
 
   const [mintValue, setMintValue] = useState('');
+  const [mintName, setMintName] = useState('');
+  const [mintDescription, setMintDescription] = useState('');
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
+  const [attributeValues, setAttributeValues] = useState<Record<string, string>>({});
   const [minting, setMinting] = useState(false);
   const [mintStatus, setMintStatus] = useState('');
 
@@ -28,67 +77,77 @@ export function HiddenNFTApp() {
   const [transferAddress, setTransferAddress] = useState('');
   const [transferring, setTransferring] = useState(false);
   const [transferStatus, setTransferStatus] = useState('');
+  const [sealBeforeSending, setSealBeforeSending] = useState(false);
+  const [sealValue, setSealValue] = useState('');
+
+  const [reencryptToken, setReencryptToken] = useState('');
+  const [reencryptValue, setReencryptValue] = useState('');
+  const [reencrypting, setReencrypting] = useState(false);
+  const [reencryptStatus, setReencryptStatus] = useState('');
 
   const [decryptedAttributes, setDecryptedAttributes] = useState<DecryptedMap>({});
   const [activeDecrypt, setActiveDecrypt] = useState<number | null>(null);
   const [decryptStatus, setDecryptStatus] = useState('');
-
-  const [nfts, setNfts] = useState<NFTItem[]>([]);
-  const [activeTab, setActiveTab] = useState<'mint' | 'transfer' | 'gallery'>('mint');
-  const [loadingNFTs, setLoadingNFTs] = useState(false);
-
-  // Initialize FHE when wallet connects
+  const [revealedAttributes, setRevealedAttributes] = useState<Record<string, DecryptedMap>>({});
+  const [activeAttribute, setActiveAttribute] = useState<{ tokenId: bigint; key: string } | null>(null);
+
+  const [galleryPages, setGalleryPages] = useState(1);
+
+  // Tabs follow the URL so they survive a reload; /address/:addr is the watch-only gallery
+  const route = useRoute();
+  const activeTab = route.name === 'address' ? 'gallery'
+    : route.name === 'token' ? 'explore'
+    : route.name === 'proof' ? 'verify'
+    : route.name;
+  const watchAddress = route.name === 'address' ? route.address : null;
+
+  // Reads need no wallet; signing (mint, transfer, reveal) needs one on the right chain
+  const canSign = wallet.isConnected && !wallet.isWrongNetwork;
+
+  // The mint form and gallery follow the collection schema; its owner may extend it
+  const attributeSchema = useQuery(attributeSchemaQuery());
+  const schema = attributeSchema.data ?? [];
+  const collectionOwner = useQuery(collectionOwnerQuery());
+  const isCollectionOwner = wallet.address !== null && collectionOwner.data !== undefined &&
+    isAddressEqual(collectionOwner.data, wallet.address as Address);
+  const galleryOwner = watchAddress ?? (wallet.address as Address | null);
+  const isOwnGallery = galleryOwner !== null && wallet.address !== null && isAddressEqual(galleryOwner, wallet.address as Address);
+
+  // Token ids of the browsed address; images are read per visible token, batched by multicall
+  const ownedTokens = useQuery({
+    ...ownedTokensQuery(galleryOwner ?? zeroAddress),
+    enabled: galleryOwner !== null,
+  });
+  const ownedTokenIds = galleryOwner ? ownedTokens.data ?? [] : [];
+  const visibleTokenIds = ownedTokenIds.slice(0, galleryPages * GALLERY_PAGE_SIZE);
+
+  // Tokens other owners let the connected wallet decrypt, minus the ones it owns by now
+  const walletAddress = wallet.address as Address | null;
+  const walletTokens = useQuery({
+    ...ownedTokensQuery(walletAddress ?? zeroAddress),
+    enabled: walletAddress !== null,
+  });
+  const sharedTokens = useQuery({
+    ...sharedTokensQuery(walletAddress ?? zeroAddress),
+    enabled: walletAddress !== null,
+  });
+  const sharedTokenIds = walletAddress
+    ? (sharedTokens.data ?? []).filter(id => !walletTokens.data?.includes(id))
+    : [];
+
+  // Mints, incoming and outgoing transfers of the connected account show up without a reload
+  useTransferSubscription(wallet.address as Address | null);
+
+  // Revealed messages belong to the previous chain
   useEffect(() => {
-    if (wallet.isConnected) {
-      initializeFHE().catch(err => {
-        console.error('Failed to initialize FHE:', err);
-        setMintStatus('⚠️ FHE initialization failed. Check console for details.');
-      });
-    }
-  }, [wallet.isConnected]);
+    setDecryptedAttributes({});
+    setRevealedAttributes({});
+  }, [wallet.chainId]);
 
-  // Load NFTs when wallet connects or tab changes to gallery
+  // Start from the first page when browsing another address
   useEffect(() => {
-    if (wallet.isConnected && wallet.address && activeTab === 'gallery') {
-      loadNFTs();
-    }
-  }, [wallet.isConnected, wallet.address, activeTab]);
-
-  // Function to load NFTs from blockchain
-  const loadNFTs = async () => {
-    if (!wallet.address) return;
-
-    try {
-      setLoadingNFTs(true);
-      const provider = new BrowserProvider(window.ethereum!);
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
-
-      // Get token IDs owned by user
-      const tokenIds = await contract.tokensOfOwner(wallet.address) as bigint[];
-
-      // Load details for each token
-      const nftPromises = tokenIds.map(async (tokenId) => {
-        const imageUri = await contract.getTokenImageURI(tokenId);
-        // Note: Messages are encrypted on-chain, we'll show them as encrypted
-        return {
-          tokenId: Number(tokenId),
-          owner: wallet.address!,
-          imageUri: imageUri as string,
-          message: '[Encrypted on-chain with FHE]',
-        };
-      });
-
-      const loadedNFTs = await Promise.all(nftPromises);
-      setNfts(loadedNFTs);
-      console.log('✅ Loaded', loadedNFTs.length, 'NFTs');
-    } catch (error) {
-      console.error('Failed to load NFTs:', error);
-    } finally {
-      setLoadingNFTs(false);
-    }
-  };
-
-  const ZERO_ADDRESS = /^0x[a-fA-F0-9]{40}$/;
+    setGalleryPages(1);
+  }, [galleryOwner]);
 
   const handleMint = async (event: React.FormEvent) => {
     event.preventDefault();
@@ -99,6 +158,11 @@ export function HiddenNFTApp() {
       return;
     }
 
+    if (wallet.isWrongNetwork) {
+      setMintStatus(`🔀 Switch your wallet to ${network.chain.name} before minting.`);
+      return;
+    }
+
     if (!selectedImage) {
       setMintStatus('Please select an image for the NFT.');
       return;
@@ -109,52 +173,113 @@ export function HiddenNFTApp() {
       return;
     }
 
+    if (attributeSchema.isPending) {
+      setMintStatus('⏳ Loading the collection schema, try again in a moment.');
+      return;
+    }
+
+    let attributeInputs: EncryptInput[];
+    try {
+      attributeInputs = schema.map(definition =>
+        toEncryptInput(definition, attributeValues[definition.key] ?? defaultAttributeInput(definition))
+      );
+    } catch (error) {
+      setMintStatus(getErrorMessage(error, 'Invalid attribute'));
+      return;
+    }
+
     try {
       setMinting(true);
       setMintStatus('📤 Uploading image...');
-      const { imageUri } = await uploadImage(selectedImage);
+      const { imageUri, provider: storageProvider } = await uploadImage(selectedImage);
       
-      setMintStatus('🔐 Encrypting message with FHE...');
-      const { encryptedMessage, inputProof } = await encryptMessage(mintValue);
+      setMintStatus(schema.length > 0 ? '🔐 Encrypting message and attributes with FHE...' : '🔐 Encrypting message with FHE...');
+      const { encryptedChunks, encryptedAttributes, inputProof } = await encryptToken(mintValue, attributeInputs);
+
+      // The original contract has no metadata URI to point tokenURI at
+      let metadataUpload: MetadataUploadResult | null = null;
+      if (!legacy) {
+        setMintStatus('📝 Uploading metadata...');
+        const metadata = buildMetadata({
+          name: mintName,
+          description: mintDescription,
+          imageUri,
+          messageChunks: encryptedChunks.length,
+          attributeNames: schema.map(definition => definition.name),
+        });
+        metadataUpload = await uploadMetadata(metadata);
+      }
+
+      // Unlock the local vault so the plaintext can be cached encrypted after mint
+      if (!isVaultUnlocked(wallet.address)) {
+        setMintStatus('🔑 Sign to unlock your local message vault...');
+        try {
+          await unlockVault(wallet.address);
+        } catch (vaultError) {
+          console.warn('Vault unlock skipped, message will not be cached locally:', vaultError);
+        }
+      }
       
       setMintStatus('🙋 Awaiting wallet confirmation...');
 
-      // Get contract instance
-      const provider = new BrowserProvider(window.ethereum!);
-      const signer = await provider.getSigner();
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-
       // Call FHE mint function with encrypted parameters
-      const tx = await contract.mint(encryptedMessage, inputProof, imageUri);
-      
-      setMintStatus('⏳ Waiting for blockchain confirmation... Check Etherscan for your transaction.');
-      const receipt = await tx.wait();
-      
-      if (receipt) {
-        // Extract tokenId from mint event
-        const tokenId = receipt.logs[0]?.topics[3];
-        if (tokenId) {
-          // Store original message locally so user can see it
-          const tokenIdNum = Number(tokenId);
-          localStorage.setItem(`nft_message_${wallet.address}_${tokenIdNum}`, mintValue);
-          console.log('💾 Stored message locally for token', tokenIdNum);
+      const { tokenId } = await nftService.mint(
+        {
+          encryptedChunks,
+          encryptedAttributes,
+          inputProof,
+          imageUri,
+          metadataUri: metadataUpload?.metadataUri ?? '',
+        },
+        {
+          onSubmitted: () => setMintStatus('⏳ Waiting for blockchain confirmation... Follow it under 🧾 Activity, even after a reload.'),
         }
-        
-        setMintStatus('✅ NFT minted successfully! Check Etherscan for your transaction.');
-        setMintValue('');
-        setSelectedImage(null);
-        setActiveTab('gallery');
-        // Reload NFTs to show the new one
-        setTimeout(() => loadNFTs(), 2000);
+      );
+
+      if (isVaultUnlocked(wallet.address)) {
+        // Cache original message in the encrypted vault so the owner can reveal it without the relayer
+        await saveMessage(wallet.address, Number(tokenId), mintValue);
+        console.log('💾 Stored message in vault for token', tokenId.toString());
       }
-    } catch (error: any) {
+
+      setMintStatus(`✅ NFT #${tokenId} minted successfully! Image stored via ${storageProvider}. See 🧾 Activity for the transaction.`);
+      setMintValue('');
+      setMintName('');
+      setMintDescription('');
+      setSelectedImage(null);
+      setAttributeValues({});
+      navigate('/gallery');
+      // Show the new token in the gallery and explorer
+      await invalidateAfterMint(queryClient, wallet.address as Address);
+    } catch (error) {
       console.error('Mint failed:', error);
-      setMintStatus('❌ ' + (error.reason || error.message || 'Mint failed'));
+      setMintStatus('❌ ' + getErrorMessage(error, 'Mint failed'));
     } finally {
       setMinting(false);
     }
   };
 
+  /**
+   * Encrypt a new message for a token of the connected account and store it on-chain
+   * Reports progress through setStatus; the caller handles errors.
+   */
+  const sealNewMessage = async (tokenId: bigint, message: string, setStatus: (status: string) => void) => {
+    setStatus('🔐 Encrypting the new message with FHE...');
+    const encrypted = await encryptMessage(message);
+
+    setStatus('🙋 Awaiting wallet confirmation for the new message...');
+    await nftService.updateMessage(tokenId, encrypted, {
+      onSubmitted: () => setStatus('⏳ Sealing the new message... Follow it under 🧾 Activity.'),
+    });
+
+    // The vault would otherwise reveal the replaced message
+    if (wallet.address && isVaultUnlocked(wallet.address)) {
+      await saveMessage(wallet.address, Number(tokenId), message);
+    }
+    setDecryptedAttributes(prev => ({ ...prev, [tokenId.toString()]: message }));
+    await invalidateAfterMessageUpdate(queryClient, tokenId);
+  };
+
   const handleTransfer = async (event: React.FormEvent) => {
     event.preventDefault();
     setTransferStatus('');
@@ -164,107 +289,184 @@ export function HiddenNFTApp() {
       return;
     }
 
-    if (!ZERO_ADDRESS.test(transferAddress.trim())) {
+    if (wallet.isWrongNetwork) {
+      setTransferStatus(`🔀 Switch your wallet to ${network.chain.name} before transferring.`);
+      return;
+    }
+
+    const recipient = transferAddress.trim();
+    if (!isAddress(recipient)) {
       setTransferStatus('Enter a valid Ethereum address (0x...)');
       return;
     }
 
-    let tokenId: number;
-    try {
-      tokenId = Number(transferToken);
-      if (!Number.isInteger(tokenId) || tokenId < 0) {
-        throw new Error('Invalid token ID');
-      }
-    } catch (error) {
+    if (!/^\d+$/.test(transferToken)) {
       setTransferStatus('Enter a valid token ID (must be a number)');
       return;
     }
+    const tokenId = BigInt(transferToken);
+
+    // Legacy contracts cannot replace a message, the option is hidden there
+    const sealing = sealBeforeSending && !legacy;
+    if (sealing && !sealValue.trim()) {
+      setTransferStatus('Enter the new message to seal before sending');
+      return;
+    }
 
     try {
       setTransferring(true);
-      setTransferStatus('🙋 Awaiting wallet confirmation...');
 
-      // Get contract instance
-      const provider = new BrowserProvider(window.ethereum!);
-      const signer = await provider.getSigner();
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      if (sealing) {
+        await sealNewMessage(tokenId, sealValue, setTransferStatus);
+      } else {
+        // FHE ACLs cannot be revoked: the handle stays readable by the sender and every former holder
+        console.warn(`⚠️ Transferring NFT #${tokenId} without re-encrypting, former holders keep access to its message`);
+      }
+
+      setTransferStatus('🙋 Awaiting wallet confirmation...');
 
       // Call transferFrom function
-      const tx = await contract.transferFrom(wallet.address, transferAddress, tokenId);
-      
-      setTransferStatus('⏳ Transaction submitted! Waiting for confirmation...');
-      const receipt = await tx.wait();
-      
-      if (receipt) {
-        setTransferStatus('✅ Transfer completed! Check Etherscan for your transaction.');
-        setTransferToken('');
-        setTransferAddress('');
-      }
-    } catch (error: any) {
+      const { from, to } = await nftService.transfer(recipient, tokenId, {
+        onSubmitted: () => setTransferStatus('⏳ Transaction submitted! Waiting for confirmation... Follow it under 🧾 Activity.'),
+      });
+
+      setTransferStatus(
+        sealing
+          ? '✅ Transfer completed with a freshly sealed message: former holders can only read the old one. See 🧾 Activity for the transactions.'
+          : legacy
+            ? '✅ Transfer completed! ⚠️ The message was not re-encrypted: you and every former holder can still decrypt it.'
+            : '✅ Transfer completed! ⚠️ The message was not re-encrypted: you and every former holder can still decrypt it. The recipient can seal a new one under "Re-encrypt a received NFT".'
+      );
+      await invalidateAfterTransfer(queryClient, tokenId, from, to);
+      setTransferToken('');
+      setTransferAddress('');
+      setSealValue('');
+    } catch (error) {
       console.error('Transfer failed:', error);
-      setTransferStatus('❌ ' + (error.reason || error.message || 'Transfer failed'));
+      setTransferStatus('❌ ' + getErrorMessage(error, 'Transfer failed'));
     } finally {
       setTransferring(false);
     }
   };
 
+  const handleReencrypt = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setReencryptStatus('');
+
+    if (!canSign || !wallet.address) {
+      setReencryptStatus(`💼 Connect your wallet on ${network.chain.name} first.`);
+      return;
+    }
+
+    if (!/^\d+$/.test(reencryptToken)) {
+      setReencryptStatus('Enter a valid token ID (must be a number)');
+      return;
+    }
+    const tokenId = BigInt(reencryptToken);
+
+    if (!reencryptValue.trim()) {
+      setReencryptStatus('Enter the new message');
+      return;
+    }
+
+    try {
+      setReencrypting(true);
+      await sealNewMessage(tokenId, reencryptValue, setReencryptStatus);
+      setReencryptStatus(`✅ NFT #${tokenId} now carries a new message only you can decrypt.`);
+      setReencryptToken('');
+      setReencryptValue('');
+    } catch (error) {
+      console.error('Re-encryption failed:', error);
+      setReencryptStatus('❌ ' + getErrorMessage(error, 'Re-encryption failed'));
+    } finally {
+      setReencrypting(false);
+    }
+  };
+
   const decryptMessage = async (tokenId: number) => {
     try {
       setActiveDecrypt(tokenId);
       setDecryptStatus('');
 
-      const nft = nfts.find(n => n.tokenId === tokenId);
-      if (!nft) {
+      if (![...ownedTokenIds, ...sharedTokenIds].some(id => id === BigInt(tokenId))) {
         throw new Error('NFT not found');
       }
 
-      // First, check localStorage for the original message
-      const localMessage = localStorage.getItem(`nft_message_${wallet.address}_${tokenId}`);
-      if (localMessage) {
+      // First, check the local vault for the original message
+      const localMessage = wallet.address && isVaultUnlocked(wallet.address)
+        ? await loadMessage(wallet.address, tokenId)
+        : null;
+      if (localMessage !== null) {
         setDecryptedAttributes(prev => ({
           ...prev,
           [tokenId.toString()]: localMessage,
         }));
-        setDecryptStatus('✅ Message revealed from local storage!');
+        setDecryptStatus('✅ Message revealed from local vault!');
         setActiveDecrypt(null);
         return;
       }
 
       setDecryptStatus('🔐 Decrypting with FHE...');
 
-      // Get the encrypted message from contract
-      const provider = new BrowserProvider(window.ethereum!);
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+      // Get encrypted handles (one per message chunk) from contract
+      const encryptedHandles = [...await nftService.getEncryptedHandle(BigInt(tokenId))];
       
-      // Get encrypted handle
-      const encryptedHandle = await contract.getEncryptedMessage(tokenId);
-      
-      console.log('Encrypted handle:', encryptedHandle);
+      console.log('Encrypted handles:', encryptedHandles);
 
-      // Attempt to decrypt
+      // Decrypt through the relayer; the wallet signs a user-decrypt request
+      setDecryptStatus('✍️ Sign the decryption request in your wallet...');
       try {
-        const decryptedMessage = await decryptUint256(encryptedHandle, CONTRACT_ADDRESS);
+        const decryptedChunks = await decryptUint256Handles(encryptedHandles, contractAddress);
+        const decryptedMessage = decode(decryptedChunks);
         setDecryptedAttributes(prev => ({
           ...prev,
           [tokenId.toString()]: decryptedMessage,
         }));
+        if (wallet.address && isVaultUnlocked(wallet.address)) {
+          await saveMessage(wallet.address, tokenId, decryptedMessage);
+        }
         setDecryptStatus('✅ Message decrypted!');
-      } catch (decryptError: any) {
-        // Show that message is encrypted
-        setDecryptedAttributes(prev => ({
-          ...prev,
-          [tokenId.toString()]: '🔒 Message encrypted on-chain. Only owner with local key can view.',
-        }));
-        setDecryptStatus('ℹ️ Message is FHE-encrypted on blockchain');
+      } catch (decryptError) {
+        const status = describeDecryptError(decryptError, 'message');
+        if (!status) {
+          throw decryptError;
+        }
+        setDecryptStatus(status);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Reveal failed:', error);
-      setDecryptStatus('❌ ' + (error.message || 'Reveal failed'));
+      setDecryptStatus('❌ ' + getErrorMessage(error, 'Reveal failed'));
     } finally {
       setActiveDecrypt(null);
     }
   };
 
+  const revealAttribute = async (tokenId: bigint, definition: AttributeDefinition) => {
+    try {
+      setActiveAttribute({ tokenId, key: definition.key });
+      setDecryptStatus(`✍️ Sign the request to decrypt ${definition.name}...`);
+
+      const handle = await nftService.getEncryptedAttribute(tokenId, definition.key);
+      const [value] = await decryptHandles([handle], contractAddress);
+      setRevealedAttributes(prev => ({
+        ...prev,
+        [tokenId.toString()]: { ...prev[tokenId.toString()], [definition.key]: formatAttributeValue(definition, value) },
+      }));
+      setDecryptStatus(`✅ ${definition.name} decrypted!`);
+    } catch (error) {
+      console.error('Attribute reveal failed:', error);
+      setDecryptStatus(describeDecryptError(error, 'attribute') ?? '❌ ' + getErrorMessage(error, 'Reveal failed'));
+    } finally {
+      setActiveAttribute(null);
+    }
+  };
+
+  const attributeRevealProps = (tokenId: bigint) => ({
+    revealedAttributes: revealedAttributes[tokenId.toString()],
+    revealingAttribute: activeAttribute?.tokenId === tokenId ? activeAttribute.key : null,
+    onRevealAttribute: (definition: AttributeDefinition) => revealAttribute(tokenId, definition),
+  });
+
   return (
     <div className="app-v2">
       <Header />
@@ -272,43 +474,77 @@ export function HiddenNFTApp() {
       <div className="hero-section">
         <div className="hero-content">
           <h1 className="hero-title">Private NFT</h1>
-          <p className="hero-subtitle">Create and manage encrypted NFTs on Sepolia</p>
+          <p className="hero-subtitle">Create and manage encrypted NFTs on {network.chain.name}</p>
           <p style={{ fontSize: '0.9rem', opacity: 0.9, marginTop: '8px' }}>
-            🔗 Real blockchain transactions • 📊 View on Etherscan • 🏗️ Contract: {CONTRACT_ADDRESS.slice(0, 6)}...{CONTRACT_ADDRESS.slice(-4)}
+            🔗 {deployment.label} • 🏗️ Contract:{' '}
+            {contractLink ? (
+              <a href={contractLink} target="_blank" rel="noopener noreferrer" style={{ color: 'inherit' }}>
+                {contractAddress.slice(0, 6)}...{contractAddress.slice(-4)}
+              </a>
+            ) : (
+              <>{contractAddress.slice(0, 6)}...{contractAddress.slice(-4)}</>
+            )}
           </p>
         </div>
       </div>
 
       <div className="container">
+        <NetworkBanner />
+
         <div className="tabs-header">
-          <button 
-            className={`tab-btn ${activeTab === 'mint' ? 'active' : ''}`}
-            onClick={() => setActiveTab('mint')}
-          >
+          <Link to="/" className={`tab-btn ${activeTab === 'mint' ? 'active' : ''}`}>
             <span className="tab-icon">✨</span> Create NFT
-          </button>
-          <button 
-            className={`tab-btn ${activeTab === 'transfer' ? 'active' : ''}`}
-            onClick={() => setActiveTab('transfer')}
-          >
+          </Link>
+          <Link to="/transfer" className={`tab-btn ${activeTab === 'transfer' ? 'active' : ''}`}>
             <span className="tab-icon">📤</span> Transfer
-          </button>
-          <button 
-            className={`tab-btn ${activeTab === 'gallery' ? 'active' : ''}`}
-            onClick={() => setActiveTab('gallery')}
-          >
-            <span className="tab-icon">🖼️</span> Gallery ({nfts.filter(n => n.owner === wallet.address).length})
-          </button>
+          </Link>
+          <Link to="/gallery" className={`tab-btn ${activeTab === 'gallery' ? 'active' : ''}`}>
+            <span className="tab-icon">🖼️</span> Gallery ({ownedTokenIds.length})
+          </Link>
+          <Link to="/shared" className={`tab-btn ${activeTab === 'shared' ? 'active' : ''}`}>
+            <span className="tab-icon">🤝</span> Shared with me ({sharedTokenIds.length})
+          </Link>
+          <Link to="/explore" className={`tab-btn ${activeTab === 'explore' ? 'active' : ''}`}>
+            <span className="tab-icon">🧭</span> Explore
+          </Link>
+          <Link to="/verify" className={`tab-btn ${activeTab === 'verify' ? 'active' : ''}`}>
+            <span className="tab-icon">🔍</span> Verify
+          </Link>
         </div>
 
+        {route.name === 'notFound' && (
+          <div className="tab-content">
+            <div className="empty-state">
+              <div className="empty-icon">🧭</div>
+              <h3>Page Not Found</h3>
+              <p>There is nothing at this address</p>
+              <Link to="/" className="btn btn-primary">Go to Create NFT</Link>
+            </div>
+          </div>
+        )}
+
         {activeTab === 'mint' && (
           <div className="tab-content">
             <div className="card mint-card">
               <div className="card-header">
                 <h2>Create New NFT</h2>
-                <p>Upload an image and add a message. Real transaction on Sepolia blockchain.</p>
+                <p>Upload an image and add a message. Real transaction on {network.chain.name}.</p>
               </div>
-              
+
+              <FheStatus />
+
+              {legacy && (
+                <div className="info-box">
+                  <span className="info-icon">ℹ️</span>
+                  <span>
+                    The {deployment.label} contract is the original single-message version: messages are limited
+                    to {mintMaxBytes} bytes and features added since are unavailable.
+                  </span>
+                </div>
+              )}
+
+              {isCollectionOwner && !legacy && <SchemaEditor />}
+
               <form onSubmit={handleMint} className="mint-form">
                 <div className="form-section">
                   <label className="form-label">NFT Image</label>
@@ -316,36 +552,76 @@ export function HiddenNFTApp() {
                     onImageSelect={(file) => setSelectedImage(file)}
                     onImageClear={() => setSelectedImage(null)}
                     disabled={minting || !wallet.isConnected}
+                    onChainStorage={isOnChainStorage()}
                   />
                 </div>
 
+                {!legacy && (
+                  <>
+                    <div className="form-section">
+                      <label className="form-label">Name</label>
+                      <input
+                        className="text-input"
+                        value={mintName}
+                        onChange={event => setMintName(event.target.value)}
+                        placeholder={DEFAULT_NFT_NAME}
+                        maxLength={64}
+                        disabled={minting || !wallet.isConnected}
+                      />
+                    </div>
+
+                    <div className="form-section">
+                      <label className="form-label">Description (public)</label>
+                      <textarea
+                        className="text-input"
+                        value={mintDescription}
+                        onChange={event => setMintDescription(event.target.value)}
+                        placeholder="Shown in wallets and marketplaces. Leave the secret for the message below."
+                        rows={2}
+                        disabled={minting || !wallet.isConnected}
+                      />
+                    </div>
+                  </>
+                )}
+
                 <div className="form-section">
                   <label className="form-label">Message</label>
                   <div className="input-wrapper">
                     <textarea
                       className="text-input"
                       value={mintValue}
-                      onChange={event => setMintValue(event.target.value)}
+                      onChange={event => setMintValue(truncateToBytes(event.target.value, mintMaxBytes))}
                       placeholder="Enter a message for this NFT"
-                      maxLength={100}
                       rows={4}
                       disabled={minting || !wallet.isConnected}
                     />
-                    <div className="char-count">{mintValue.length}/100</div>
+                    <div className="char-count">{byteLength(mintValue)}/{mintMaxBytes} bytes</div>
                   </div>
                 </div>
 
+                {schema.length > 0 && (
+                  <div className="form-section">
+                    <label className="form-label">Encrypted Attributes</label>
+                    <AttributeInputs
+                      schema={schema}
+                      values={attributeValues}
+                      onChange={(key, value) => setAttributeValues(prev => ({ ...prev, [key]: value }))}
+                      disabled={minting || !wallet.isConnected}
+                    />
+                  </div>
+                )}
+
                 <button 
                   className="btn btn-primary btn-large"
                   type="submit" 
-                  disabled={minting || !wallet.isConnected || !selectedImage}
+                  disabled={minting || !canSign || !selectedImage}
                 >
                   {minting ? (
                     <>
                       <span className="spinner"></span> Confirming...
                     </>
                   ) : (
-                    <>🏗️ Mint on Sepolia</>
+                    <>🏗️ Mint on {network.chain.name}</>
                   )}
                 </button>
 
@@ -358,7 +634,7 @@ export function HiddenNFTApp() {
                 {!wallet.isConnected && (
                   <div className="info-box">
                     <span className="info-icon">ℹ️</span>
-                    <span>Connect your MetaMask wallet to Sepolia testnet to mint NFTs</span>
+                    <span>Connect your wallet to {network.chain.name} to mint NFTs</span>
                   </div>
                 )}
               </form>
@@ -371,7 +647,7 @@ export function HiddenNFTApp() {
             <div className="card transfer-card">
               <div className="card-header">
                 <h2>Transfer NFT</h2>
-                <p>Send your NFT to another address on Sepolia</p>
+                <p>Send your NFT to another address on {network.chain.name}</p>
               </div>
 
               <form onSubmit={handleTransfer} className="transfer-form">
@@ -399,10 +675,47 @@ export function HiddenNFTApp() {
                   />
                 </div>
 
+                {!legacy && (
+                  <div className="form-section">
+                    <label className="form-check">
+                      <input
+                        type="checkbox"
+                        checked={sealBeforeSending}
+                        onChange={event => setSealBeforeSending(event.target.checked)}
+                        disabled={transferring || !wallet.isConnected}
+                      />
+                      Seal a new message before sending
+                    </label>
+                    {sealBeforeSending && (
+                      <div className="input-wrapper">
+                        <textarea
+                          className="text-input"
+                          value={sealValue}
+                          onChange={event => setSealValue(truncateToBytes(event.target.value, MAX_MESSAGE_BYTES))}
+                          placeholder="New message for the recipient"
+                          rows={3}
+                          disabled={transferring}
+                        />
+                        <div className="char-count">{byteLength(sealValue)}/{MAX_MESSAGE_BYTES} bytes</div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {(!sealBeforeSending || legacy) && (
+                  <div className="info-box">
+                    <span className="info-icon">⚠️</span>
+                    <span>
+                      Transferring does not revoke access: you and every former holder can still decrypt the
+                      current message.{!legacy && ' Seal a new message first, or let the recipient re-encrypt it after the transfer.'}
+                    </span>
+                  </div>
+                )}
+
                 <button
                   className="btn btn-secondary btn-large"
                   type="submit"
-                  disabled={transferring || !wallet.isConnected || !transferToken}
+                  disabled={transferring || !canSign || !transferToken}
                 >
                   {transferring ? (
                     <>
@@ -420,84 +733,200 @@ export function HiddenNFTApp() {
                 )}
               </form>
             </div>
+
+            {!legacy && (
+              <div className="card transfer-card rotation-card">
+                <div className="card-header">
+                  <h2>Re-encrypt a Received NFT</h2>
+                  <p>Replace the message of an NFT you own so former holders cannot read the new one</p>
+                </div>
+
+                <form onSubmit={handleReencrypt} className="transfer-form">
+                  <div className="form-section">
+                    <label className="form-label">Token ID</label>
+                    <input
+                      className="text-input"
+                      type="number"
+                      value={reencryptToken}
+                      onChange={event => setReencryptToken(event.target.value.replace(/[^0-9]/g, ''))}
+                      placeholder="1"
+                      inputMode="numeric"
+                      disabled={reencrypting || !wallet.isConnected}
+                    />
+                  </div>
+
+                  <div className="form-section">
+                    <label className="form-label">New Message</label>
+                    <div className="input-wrapper">
+                      <textarea
+                        className="text-input"
+                        value={reencryptValue}
+                        onChange={event => setReencryptValue(truncateToBytes(event.target.value, MAX_MESSAGE_BYTES))}
+                        placeholder="Former holders already know the old message, so pick a new one"
+                        rows={3}
+                        disabled={reencrypting || !wallet.isConnected}
+                      />
+                      <div className="char-count">{byteLength(reencryptValue)}/{MAX_MESSAGE_BYTES} bytes</div>
+                    </div>
+                    <span className="form-hint">Viewers you shared the token with lose access to the new message too.</span>
+                  </div>
+
+                  <button
+                    className="btn btn-primary btn-large"
+                    type="submit"
+                    disabled={reencrypting || !canSign || !reencryptToken}
+                  >
+                    {reencrypting ? (
+                      <>
+                        <span className="spinner"></span> Sealing...
+                      </>
+                    ) : (
+                      <>🔄 Re-encrypt Message</>
+                    )}
+                  </button>
+
+                  {reencryptStatus && (
+                    <div className={`status-message ${reencryptStatus.includes('✅') ? 'success' : 'error'}`}>
+                      {reencryptStatus}
+                    </div>
+                  )}
+                </form>
+              </div>
+            )}
           </div>
         )}
 
         {activeTab === 'gallery' && (
           <div className="tab-content">
-            {!wallet.isConnected ? (
+            <WatchAddressBar
+              watching={watchAddress}
+              onWatch={address => navigate(address ? `/address/${address}` : '/gallery')}
+              clearLabel={wallet.isConnected ? 'Back to my NFTs' : 'Clear'}
+            />
+
+            {wallet.isConnected && wallet.address && isOwnGallery && (
+              <VaultPanel address={wallet.address} />
+            )}
+
+            {!galleryOwner ? (
               <div className="empty-state">
                 <div className="empty-icon">👛</div>
                 <h3>Connect Your Wallet</h3>
-                <p>Connect MetaMask to view your NFTs</p>
+                <p>Connect a wallet to view your NFTs, or browse any address above</p>
               </div>
-            ) : loadingNFTs ? (
+            ) : ownedTokens.isPending ? (
               <div className="empty-state">
                 <span className="spinner" style={{ width: '40px', height: '40px' }}></span>
-                <h3>Loading Your NFTs...</h3>
+                <h3>{isOwnGallery ? 'Loading Your NFTs...' : 'Loading NFTs...'}</h3>
                 <p>Fetching from blockchain</p>
               </div>
-            ) : nfts.length === 0 ? (
+            ) : ownedTokens.isError ? (
               <div className="empty-state">
-                <div className="empty-icon">🎨</div>
-                <h3>No NFTs Yet</h3>
-                <p>Create your first NFT to get started</p>
-                <button className="btn btn-primary" onClick={() => setActiveTab('mint')}>
-                  ✨ Mint Your First NFT
+                <div className="empty-icon">⚠️</div>
+                <h3>Could Not Load NFTs</h3>
+                <p>{getErrorMessage(ownedTokens.error, 'Failed to load NFTs')}</p>
+                <button className="btn btn-primary" onClick={() => ownedTokens.refetch()}>
+                  Retry
                 </button>
               </div>
+            ) : ownedTokenIds.length === 0 ? (
+              isOwnGallery ? (
+                <div className="empty-state">
+                  <div className="empty-icon">🎨</div>
+                  <h3>No NFTs Yet</h3>
+                  <p>Create your first NFT to get started</p>
+                  <Link to="/" className="btn btn-primary">
+                    ✨ Mint Your First NFT
+                  </Link>
+                </div>
+              ) : (
+                <div className="empty-state">
+                  <div className="empty-icon">🎨</div>
+                  <h3>No NFTs</h3>
+                  <p>This address holds no tokens of this collection</p>
+                </div>
+              )
             ) : (
-              <div className="gallery-grid">
-                {nfts.map(nft => {
-                  const decrypted = decryptedAttributes[nft.tokenId.toString()];
-                  
-                  return (
-                    <div key={nft.tokenId} className="nft-item">
-                      <div className="nft-image-wrapper">
-                        <img
-                          src={getImageUrl(nft.imageUri)}
-                          alt={`NFT #${nft.tokenId}`}
-                          className="nft-image"
-                        />
-                        <div className="nft-badge">#{nft.tokenId}</div>
-                      </div>
+              <>
+                <div className="gallery-grid">
+                  {visibleTokenIds.map(tokenId => (
+                    <GalleryItem
+                      key={tokenId.toString()}
+                      tokenId={tokenId}
+                      decrypted={decryptedAttributes[tokenId.toString()]}
+                      isRevealing={activeDecrypt === Number(tokenId)}
+                      canReveal={canSign}
+                      revealHint={`Connect a wallet on ${network.chain.name} to reveal`}
+                      onReveal={() => decryptMessage(Number(tokenId))}
+                      {...attributeRevealProps(tokenId)}
+                      shareOwner={isOwnGallery && canSign && !legacy ? walletAddress ?? undefined : undefined}
+                    />
+                  ))}
+                </div>
 
-                      <div className="nft-info">
-                        <div className="nft-title">NFT #{nft.tokenId}</div>
-                        
-                        <div className="message-section">
-                          {decrypted ? (
-                            <div className="message-box decrypted">
-                              <span className="lock-icon">🔓</span>
-                              <span>{decrypted}</span>
-                            </div>
-                          ) : (
-                            <div className="message-box encrypted">
-                              <span className="lock-icon">🔒</span>
-                              <span>Message hidden</span>
-                            </div>
-                          )}
-                        </div>
-
-                        <button
-                          className={`btn btn-small ${decrypted ? 'btn-success' : 'btn-primary'}`}
-                          onClick={() => decryptMessage(nft.tokenId)}
-                          disabled={activeDecrypt === nft.tokenId}
-                        >
-                          {activeDecrypt === nft.tokenId ? (
-                            <>
-                              <span className="spinner"></span> Revealing...
-                            </>
-                          ) : decrypted ? (
-                            <>✅ Revealed</>
-                          ) : (
-                            <>🔓 Reveal</>
-                          )}
-                        </button>
-                      </div>
-                    </div>
-                  );
-                })}
+                {visibleTokenIds.length < ownedTokenIds.length && (
+                  <div className="gallery-more">
+                    <button className="btn btn-primary" onClick={() => setGalleryPages(prev => prev + 1)}>
+                      Show more ({ownedTokenIds.length - visibleTokenIds.length} left)
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+
+            {decryptStatus && (
+              <div className="gallery-status">
+                <div className={`status-message ${decryptStatus.includes('✅') ? 'success' : 'error'}`}>
+                  {decryptStatus}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'shared' && (
+          <div className="tab-content">
+            {!walletAddress ? (
+              <div className="empty-state">
+                <div className="empty-icon">👛</div>
+                <h3>Connect Your Wallet</h3>
+                <p>Connect a wallet to see the NFTs other owners shared with you</p>
+              </div>
+            ) : sharedTokens.isPending ? (
+              <div className="empty-state">
+                <span className="spinner" style={{ width: '40px', height: '40px' }}></span>
+                <h3>Loading Shared NFTs...</h3>
+                <p>Fetching from blockchain</p>
+              </div>
+            ) : sharedTokens.isError ? (
+              <div className="empty-state">
+                <div className="empty-icon">⚠️</div>
+                <h3>Could Not Load Shared NFTs</h3>
+                <p>{getErrorMessage(sharedTokens.error, 'Failed to load shared NFTs')}</p>
+                <button className="btn btn-primary" onClick={() => sharedTokens.refetch()}>
+                  Retry
+                </button>
+              </div>
+            ) : sharedTokenIds.length === 0 ? (
+              <div className="empty-state">
+                <div className="empty-icon">🤝</div>
+                <h3>Nothing Shared Yet</h3>
+                <p>NFTs whose owners let you decrypt their message show up here</p>
+              </div>
+            ) : (
+              <div className="gallery-grid">
+                {sharedTokenIds.map(tokenId => (
+                  <GalleryItem
+                    key={tokenId.toString()}
+                    tokenId={tokenId}
+                    decrypted={decryptedAttributes[tokenId.toString()]}
+                    isRevealing={activeDecrypt === Number(tokenId)}
+                    canReveal={canSign}
+                    revealHint={`Switch your wallet to ${network.chain.name} to reveal`}
+                    onReveal={() => decryptMessage(Number(tokenId))}
+                    {...attributeRevealProps(tokenId)}
+                  />
+                ))}
               </div>
             )}
 
@@ -510,10 +939,24 @@ export function HiddenNFTApp() {
             )}
           </div>
         )}
+
+        {activeTab === 'explore' && (
+          <div className="tab-content">
+            {route.name === 'token' ? <TokenPage tokenId={route.tokenId} /> : <ExploreView />}
+          </div>
+        )}
+
+        {activeTab === 'verify' && (
+          <div className="tab-content">
+            {route.name === 'proof'
+              ? <ProofPage key={route.proofId.toString()} proofId={route.proofId} />
+              : <VerifierPage />}
+          </div>
+        )}
       </div>
 
       <div className="footer">
-        <p>Real NFTs on Sepolia • Direct MetaMask connection</p>
+        <p>Real NFTs on {network.chain.name} • Direct wallet connection</p>
       </div>
     </div>
   );
@@ -1,18 +1,57 @@
-import { useState, useRef, type ChangeEvent } from 'react';
+import { useState, useRef, useEffect, type ChangeEvent } from 'react';
+import { formatEther } from 'ethers';
+import { useWallet } from '../hooks/useWallet';
+import {
+  processImage,
+  dataUriLength,
+  estimateDataUriGas,
+  formatBytes,
+  DEFAULT_PROCESSING_OPTIONS,
+  ON_CHAIN_IMAGE_GAS_BUDGET,
+  ON_CHAIN_PROCESSING_OPTIONS,
+  type ProcessedImage,
+} from '../utils/imageProcessing';
 import '../styles/ImageUpload.css';
 
 interface ImageUploadProps {
   onImageSelect: (file: File, previewUrl: string) => void;
   onImageClear?: () => void;
   disabled?: boolean;
+  /** Images will be stored on-chain as base64, so shrink harder and show the cost */
+  onChainStorage?: boolean;
 }
 
-export function ImageUpload({ onImageSelect, onImageClear, disabled }: ImageUploadProps) {
+export function ImageUpload({ onImageSelect, onImageClear, disabled, onChainStorage }: ImageUploadProps) {
   const [preview, setPreview] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [processed, setProcessed] = useState<ProcessedImage | null>(null);
+  const [error, setError] = useState('');
+  const [gasPrice, setGasPrice] = useState<bigint | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { browserProvider } = useWallet();
 
-  const handleFile = (file: File | null) => {
+  const estimatedGas = processed && onChainStorage
+    ? estimateDataUriGas(dataUriLength(processed.processedSize, processed.format))
+    : null;
+
+  // Fetch the current gas price to turn the on-chain estimate into ETH
+  useEffect(() => {
+    if (estimatedGas === null || !browserProvider) return;
+
+    let cancelled = false;
+    browserProvider.getFeeData()
+      .then(feeData => {
+        if (!cancelled) setGasPrice(feeData.gasPrice ?? feeData.maxFeePerGas);
+      })
+      .catch(error => console.warn('Failed to fetch gas price:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [estimatedGas, browserProvider]);
+
+  const handleFile = async (file: File | null) => {
     if (!file) return;
 
     if (!file.type.startsWith('image/')) {
@@ -26,13 +65,39 @@ export function ImageUpload({ onImageSelect, onImageClear, disabled }: ImageUplo
       return;
     }
 
+    setProcessing(true);
+    setError('');
+    let result: ProcessedImage;
+    try {
+      result = await processImage(file, onChainStorage ? ON_CHAIN_PROCESSING_OPTIONS : DEFAULT_PROCESSING_OPTIONS);
+    } catch (processingError) {
+      // Never fall back to the original: it still carries its EXIF/GPS metadata
+      console.error('Image processing failed:', processingError);
+      setError('❌ This image could not be processed, so its metadata could not be stripped. Try a PNG or JPEG.');
+      return;
+    } finally {
+      setProcessing(false);
+    }
+
+    if (onChainStorage) {
+      const gas = estimateDataUriGas(dataUriLength(result.processedSize, result.format));
+      if (gas > ON_CHAIN_IMAGE_GAS_BUDGET) {
+        setError(
+          `❌ Even optimized (${formatBytes(result.processedSize)}), this image needs ≈ ${(gas / 1_000_000).toFixed(1)}M gas ` +
+          `to store on-chain, over the ${(ON_CHAIN_IMAGE_GAS_BUDGET / 1_000_000).toFixed(1)}M a mint can spare. Try a simpler image.`
+        );
+        return;
+      }
+    }
+    setProcessed(result);
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const previewUrl = e.target?.result as string;
       setPreview(previewUrl);
-      onImageSelect(file, previewUrl);
+      onImageSelect(result.file, previewUrl);
     };
-    reader.readAsDataURL(file);
+    reader.readAsDataURL(result.file);
   };
 
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
@@ -61,6 +126,8 @@ export function ImageUpload({ onImageSelect, onImageClear, disabled }: ImageUplo
 
   const handleClear = () => {
     setPreview(null);
+    setProcessed(null);
+    setError('');
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -82,7 +149,12 @@ export function ImageUpload({ onImageSelect, onImageClear, disabled }: ImageUplo
         disabled={disabled}
       />
 
-      {!preview ? (
+      {processing ? (
+        <div className="upload-dropzone disabled">
+          <span className="spinner"></span>
+          <p className="upload-text">Optimizing image...</p>
+        </div>
+      ) : !preview ? (
         <div
           className={`upload-dropzone ${dragActive ? 'drag-active' : ''} ${disabled ? 'disabled' : ''}`}
           onDragEnter={handleDrag}
@@ -102,7 +174,7 @@ export function ImageUpload({ onImageSelect, onImageClear, disabled }: ImageUplo
           <p className="upload-text">
             <span className="upload-text-bold">Click to upload</span> or drag and drop
           </p>
-          <p className="upload-hint">PNG, JPG, GIF up to 10MB</p>
+          <p className="upload-hint">PNG, JPG, GIF up to 10MB. Resized and stripped of EXIF/GPS data before upload</p>
         </div>
       ) : (
         <div className="image-preview-container">
@@ -124,6 +196,28 @@ export function ImageUpload({ onImageSelect, onImageClear, disabled }: ImageUplo
           </button>
         </div>
       )}
+
+      {error && <div className="image-upload-error">{error}</div>}
+
+      {preview && processed && (
+        <div className="image-processing-info">
+          {processed.processed ? (
+            <span>
+              📉 {formatBytes(processed.originalSize)} → {formatBytes(processed.processedSize)}
+              {' · '}{processed.width}×{processed.height} {processed.format.replace('image/', '').toUpperCase()}
+              {' · '}metadata stripped
+            </span>
+          ) : (
+            <span>📎 {formatBytes(processed.originalSize)} · uploaded as-is</span>
+          )}
+          {estimatedGas !== null && (
+            <span className="image-cost-estimate">
+              ⛽ ≈ {(estimatedGas / 1_000_000).toFixed(2)}M gas to store on-chain
+              {gasPrice !== null && <> (≈ {Number(formatEther(gasPrice * BigInt(estimatedGas))).toFixed(5)} ETH)</>}
+            </span>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,46 @@
+import { useIpfsImage } from '../hooks/useIpfsImage';
+
+interface IpfsImageProps {
+  uri: string;
+  alt: string;
+  className?: string;
+}
+
+/**
+ * Image from any URI, with the gateway that served an ipfs:// one and a retry when all failed
+ * Meant for a positioned wrapper (.nft-image-wrapper), where the gateway label sits over the image.
+ */
+export function IpfsImage({ uri, alt, className }: IpfsImageProps) {
+  const { src, gateway, verified, isLoading, error, retry } = useIpfsImage(uri);
+
+  if (isLoading) {
+    return (
+      <div className={`${className ?? ''} ipfs-image-placeholder`}>
+        <span className="spinner"></span>
+      </div>
+    );
+  }
+
+  if (error || !src) {
+    return (
+      <div className={`${className ?? ''} ipfs-image-placeholder`}>
+        <span>Image unavailable</span>
+        <button type="button" className="btn btn-small" onClick={retry}>
+          🔄 Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <img src={src} alt={alt} className={className} />
+      {gateway && (
+        <span className="ipfs-gateway" title={`Served by ${gateway}`}>
+          via {gateway}
+          {verified && <span className="ipfs-gateway-verified" title="Content matches its CID"> ✓ verified</span>}
+        </span>
+      )}
+    </>
+  );
+}
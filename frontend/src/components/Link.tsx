@@ -0,0 +1,22 @@
+import type { AnchorHTMLAttributes, MouseEvent } from 'react';
+import { navigate } from '../utils/router';
+
+interface LinkProps extends AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string;
+}
+
+/**
+ * Anchor that navigates client-side, while modified clicks still open a new tab
+ */
+export function Link({ to, onClick, ...props }: LinkProps) {
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) {
+      return;
+    }
+    event.preventDefault();
+    navigate(to);
+  };
+
+  return <a href={to} onClick={handleClick} {...props} />;
+}
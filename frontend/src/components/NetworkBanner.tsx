@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { useWallet } from '../hooks/useWallet';
+import { useDeployment } from '../hooks/useDeployment';
+import '../styles/NetworkBanner.css';
+
+// Chains users most often end up on by accident
+const KNOWN_CHAINS: Record<number, string> = {
+  1: 'Ethereum Mainnet',
+  10: 'OP Mainnet',
+  137: 'Polygon',
+  8453: 'Base',
+  42161: 'Arbitrum One',
+  17000: 'Holesky',
+};
+
+/**
+ * Warns when the wallet is on another chain and offers to switch
+ */
+export function NetworkBanner() {
+  const { isWrongNetwork, chainId, switchNetwork } = useWallet();
+  const { network, deployment } = useDeployment();
+  const [switching, setSwitching] = useState(false);
+
+  if (!isWrongNetwork || chainId === null) {
+    return null;
+  }
+
+  const handleSwitch = async () => {
+    setSwitching(true);
+    try {
+      await switchNetwork();
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <div className="network-banner" role="alert">
+      <span className="network-banner-text">
+        ⚠️ Your wallet is connected to <strong>{KNOWN_CHAINS[chainId] ?? `chain ${chainId}`}</strong>.
+        The {deployment.label} deployment runs on <strong>{network.chain.name}</strong>, minting and transfers are disabled until you switch.
+      </span>
+      <button className="btn btn-small btn-primary" onClick={handleSwitch} disabled={switching}>
+        {switching ? 'Switching...' : `Switch to ${network.chain.name}`}
+      </button>
+    </div>
+  );
+}
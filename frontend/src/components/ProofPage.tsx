@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { isAddressEqual, type Address } from 'viem';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from './Link';
+import { useWallet } from '../hooks/useWallet';
+import { useDeployment } from '../hooks/useDeployment';
+import { explorerLink } from '../config/networks';
+import { attributeSchemaQuery, proofQuery } from '../utils/nftQueries';
+import { decryptHandles } from '../utils/fheEncryption';
+import { readPublicProofResult, type PublicProofResult } from '../utils/publicProof';
+import { describeCondition } from '../utils/conditionProof';
+import { describeDecryptError, getErrorMessage } from '../utils/errors';
+import '../styles/Verifier.css';
+import '../styles/ExploreView.css';
+
+interface ProofPageProps {
+  proofId: bigint;
+}
+
+/**
+ * Shareable page of a condition proof, decrypting its true/false outcome on demand
+ * Public outcomes can be verified by anyone, private ones only by the requester.
+ */
+export function ProofPage({ proofId }: ProofPageProps) {
+  const wallet = useWallet();
+  const { network, deployment } = useDeployment();
+  const { data: proof, error } = useQuery(proofQuery(proofId));
+  const { data: schema } = useQuery(attributeSchemaQuery());
+  const [outcome, setOutcome] = useState<PublicProofResult | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [status, setStatus] = useState('');
+
+  if (error) {
+    return (
+      <div className="empty-state">
+        <div className="empty-icon">🔍</div>
+        <h3>Proof #{proofId.toString()} Not Found</h3>
+        <p>{getErrorMessage(error, 'Proof not found')}</p>
+        <Link to="/verify" className="btn btn-primary">Verify a condition</Link>
+      </div>
+    );
+  }
+
+  if (!proof) {
+    return (
+      <div className="empty-state">
+        <span className="spinner" style={{ width: '40px', height: '40px' }}></span>
+        <h3>Loading Proof #{proofId.toString()}...</h3>
+        <p>Fetching from blockchain</p>
+      </div>
+    );
+  }
+
+  const isRequester = wallet.address !== null && isAddressEqual(proof.requester, wallet.address as Address);
+  // Public decryption needs no wallet, only the requester's user decryption does
+  const canVerify = proof.publicResult || (isRequester && !wallet.isWrongNetwork);
+  const txLink = proof.txHash ? explorerLink(network, 'tx', proof.txHash) : null;
+
+  const verify = async () => {
+    setVerifying(true);
+    setStatus('');
+    try {
+      // Public outcomes need no signature and are checked on-chain; private ones go through the
+      // requester's user-decrypt flow, whose answer only the requester sees
+      if (proof.publicResult) {
+        setOutcome(await readPublicProofResult(proof));
+      } else {
+        const [value] = await decryptHandles([proof.result], deployment.contracts.hiddenAttributeNFT);
+        setOutcome({ outcome: value === true, verified: false });
+      }
+    } catch (verifyError) {
+      console.error('Verification failed:', verifyError);
+      setStatus(describeDecryptError(verifyError, 'result') ?? '❌ ' + getErrorMessage(verifyError, 'Verification failed'));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2>Proof #{proof.proofId.toString()}</h2>
+        <p>{describeCondition(proof, schema)}</p>
+      </div>
+
+      <div className="proof-body">
+        <dl className="token-facts">
+          <dt>Token</dt>
+          <dd><Link to={`/token/${proof.tokenId}`}>NFT #{proof.tokenId.toString()}</Link></dd>
+          <dt>Requested by</dt>
+          <dd>
+            <Link to={`/address/${proof.requester}`}>{proof.requester}</Link>
+            {isRequester && ' (you)'}
+          </dd>
+          <dt>Result</dt>
+          <dd>{proof.publicResult ? '🌐 Public, anyone can verify it' : '🔒 Private to the requester'}</dd>
+          <dt>Transaction</dt>
+          <dd>
+            {txLink ? (
+              <a href={txLink} target="_blank" rel="noopener noreferrer">{proof.txHash} ↗</a>
+            ) : (
+              <code>{proof.txHash ?? 'unknown'}</code>
+            )}
+            {' '}(block {proof.blockNumber.toString()})
+          </dd>
+        </dl>
+
+        {outcome === null ? (
+          <button className="btn btn-primary btn-large" onClick={verify} disabled={verifying || !canVerify}>
+            {verifying ? <><span className="spinner"></span> Decrypting...</> : '🔍 Verify result'}
+          </button>
+        ) : (
+          <div className={`proof-outcome ${outcome.outcome ? 'proof-true' : 'proof-false'}`}>
+            {outcome.verified
+              ? (outcome.outcome ? '✅ Verified: true' : '❌ Verified: false')
+              : (outcome.outcome ? '✅ True' : '❌ False')}
+            <span className="proof-outcome-condition">{describeCondition(proof, schema)}</span>
+            {!outcome.verified && (
+              <span className="proof-outcome-note">
+                {proof.publicResult ? '🧪 Unverified: mock decryption carries no proof' : 'Decrypted for you, not checked on-chain'}
+              </span>
+            )}
+          </div>
+        )}
+
+        {!proof.publicResult && !isRequester && (
+          <div className="form-hint">Only the requester can decrypt this private result</div>
+        )}
+        {!proof.publicResult && isRequester && wallet.isWrongNetwork && (
+          <div className="form-hint">Switch your wallet to {network.chain.name} to decrypt the result</div>
+        )}
+
+        {status && <div className="status-message error">{status}</div>}
+
+        <div className="info-box">
+          <span className="info-icon">ℹ️</span>
+          <span>
+            The outcome reflects the token's data at block {proof.blockNumber.toString()}: a later transfer,
+            message update or re-check does not change it. <Link to="/verify">Check another condition</Link>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
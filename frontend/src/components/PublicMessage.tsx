@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '../hooks/useToast';
+import { revealPublicly } from '../utils/nftService';
+import { publicMessageQuery, invalidateAfterReveal } from '../utils/nftQueries';
+import { describeDecryptError, getErrorMessage } from '../utils/errors';
+import '../styles/PublicMessage.css';
+
+/**
+ * Plaintext of a message its owner revealed publicly, decrypted for any visitor
+ */
+export function PublicMessageBox({ tokenId }: { tokenId: bigint }) {
+  const publicMessage = useQuery(publicMessageQuery(tokenId));
+
+  if (publicMessage.isPending) {
+    return (
+      <div className="message-box public">
+        <span className="spinner"></span>
+        <span>Decrypting public message...</span>
+      </div>
+    );
+  }
+
+  if (publicMessage.isError) {
+    return (
+      <div className="message-box encrypted">
+        <span className="lock-icon">📢</span>
+        <span>
+          {describeDecryptError(publicMessage.error, 'message')
+            ?? '❌ ' + getErrorMessage(publicMessage.error, 'Public decryption failed')}
+        </span>
+      </div>
+    );
+  }
+
+  const { message, verified } = publicMessage.data;
+  return (
+    <div className="message-box public">
+      <span className="lock-icon">📢</span>
+      <span>
+        {message}
+        <span
+          className="public-message-proof"
+          title={verified ? 'KMS signatures checked by the contract' : 'Mock decryption, no proof to check'}
+        >
+          {verified ? '✓ verified' : '🧪 unverified'}
+        </span>
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Owner action making the token's current message decryptable by anyone
+ * Asks for a second click, since a public message cannot be hidden again (only replaced).
+ */
+export function PublicRevealButton({ tokenId }: { tokenId: bigint }) {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const [confirming, setConfirming] = useState(false);
+  const [revealing, setRevealing] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const reveal = async () => {
+    setRevealing(true);
+    setStatus('🙋 Awaiting wallet confirmation...');
+    try {
+      await revealPublicly(tokenId, {
+        onSubmitted: () => setStatus('⏳ Waiting for confirmation... Follow it under 🧾 Activity.'),
+      });
+      await invalidateAfterReveal(queryClient, tokenId);
+      setStatus('');
+      setConfirming(false);
+      showToast(`📢 The message of NFT #${tokenId} is now public`, 'success');
+    } catch (error) {
+      console.error('Public reveal failed:', error);
+      setStatus('❌ ' + getErrorMessage(error, 'Public reveal failed'));
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  if (!confirming) {
+    return (
+      <button className="btn btn-small public-reveal-toggle" onClick={() => setConfirming(true)}>
+        📢 Reveal publicly
+      </button>
+    );
+  }
+
+  return (
+    <div className="public-reveal-panel">
+      <div className="public-reveal-warning">
+        ⚠️ Anyone will be able to decrypt the current message, forever. Updating the message makes the new one private again.
+      </div>
+      <div className="public-reveal-actions">
+        <button className="btn btn-small btn-primary" onClick={reveal} disabled={revealing}>
+          {revealing ? <span className="spinner"></span> : 'Publish message'}
+        </button>
+        <button className="btn btn-small" onClick={() => setConfirming(false)} disabled={revealing}>
+          Cancel
+        </button>
+      </div>
+      {status && <div className="public-reveal-status">{status}</div>}
+    </div>
+  );
+}
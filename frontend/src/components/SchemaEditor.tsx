@@ -0,0 +1,125 @@
+import { useState, type FormEvent } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { defineAttribute } from '../utils/nftService';
+import { attributeSchemaQuery, nftKeys } from '../utils/nftQueries';
+import { ATTRIBUTE_TYPES, isIntegerAttribute, maxValueOf, type AttributeType } from '../utils/attributeSchema';
+import { getErrorMessage } from '../utils/errors';
+import '../styles/Attributes.css';
+
+/**
+ * Collection schema and a form adding attributes, for the contract owner
+ * Attributes can only be added: tokens minted earlier carry no value for new ones.
+ */
+export function SchemaEditor() {
+  const queryClient = useQueryClient();
+  const schema = useQuery(attributeSchemaQuery());
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AttributeType>('euint32');
+  const [min, setMin] = useState('0');
+  const [max, setMax] = useState('100');
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const integer = isIntegerAttribute(type);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setStatus('');
+
+    if (!name.trim()) {
+      setStatus('Enter an attribute name');
+      return;
+    }
+    if (schema.data?.some(definition => definition.name === name.trim())) {
+      setStatus(`${name.trim()} is already declared`);
+      return;
+    }
+    if (integer && (!/^\d+$/.test(min) || !/^\d+$/.test(max) || BigInt(min) > BigInt(max) || BigInt(max) > maxValueOf(type))) {
+      setStatus(`Bounds must be whole numbers with min ≤ max ≤ ${maxValueOf(type)}`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setStatus('🙋 Awaiting wallet confirmation...');
+      await defineAttribute(
+        { name: name.trim(), type, min: integer ? BigInt(min) : 0n, max: integer ? BigInt(max) : 0n },
+        { onSubmitted: () => setStatus('⏳ Waiting for confirmation... Follow it under 🧾 Activity.') }
+      );
+      await queryClient.invalidateQueries({ queryKey: nftKeys.schema() });
+      setStatus(`✅ ${name.trim()} added to the schema`);
+      setName('');
+    } catch (error) {
+      console.error('Schema update failed:', error);
+      setStatus('❌ ' + getErrorMessage(error, 'Schema update failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <details className="schema-editor">
+      <summary>🧬 Collection schema ({schema.data?.length ?? 0} attribute{schema.data?.length === 1 ? '' : 's'})</summary>
+
+      {schema.data && schema.data.length > 0 && (
+        <ul className="attribute-list">
+          {schema.data.map(definition => (
+            <li key={definition.key} className="attribute-row">
+              <span className="attribute-name">{definition.name}</span>
+              <code className="attribute-type">
+                {definition.type}
+                {isIntegerAttribute(definition.type) && ` [${definition.min}, ${definition.max}]`}
+              </code>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="schema-form" onSubmit={handleSubmit}>
+        <input
+          className="text-input"
+          value={name}
+          onChange={event => setName(event.target.value)}
+          placeholder="power"
+          maxLength={32}
+          disabled={saving}
+        />
+        <select
+          className="text-input"
+          value={type}
+          onChange={event => setType(event.target.value as AttributeType)}
+          disabled={saving}
+        >
+          {ATTRIBUTE_TYPES.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        {integer && (
+          <>
+            <input
+              className="text-input"
+              value={min}
+              onChange={event => setMin(event.target.value.replace(/[^0-9]/g, ''))}
+              placeholder="min"
+              inputMode="numeric"
+              disabled={saving}
+            />
+            <input
+              className="text-input"
+              value={max}
+              onChange={event => setMax(event.target.value.replace(/[^0-9]/g, ''))}
+              placeholder="max"
+              inputMode="numeric"
+              disabled={saving}
+            />
+          </>
+        )}
+        <button className="btn btn-small btn-primary" type="submit" disabled={saving || !name.trim()}>
+          {saving ? <span className="spinner"></span> : 'Add attribute'}
+        </button>
+      </form>
+
+      {status && <div className="schema-status">{status}</div>}
+    </details>
+  );
+}
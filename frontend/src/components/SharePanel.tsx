@@ -0,0 +1,99 @@
+import { useState, type FormEvent } from 'react';
+import { isAddressEqual, type Address } from 'viem';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from './Link';
+import { useToast } from '../hooks/useToast';
+import { resolveAddressInput } from '../utils/ens';
+import { grantViewer } from '../utils/nftService';
+import { viewersQuery, invalidateAfterGrant } from '../utils/nftQueries';
+import { getErrorMessage } from '../utils/errors';
+import '../styles/SharePanel.css';
+
+interface SharePanelProps {
+  tokenId: bigint;
+  owner: Address;
+}
+
+/**
+ * Viewers of a token and a form granting a new one read access to its message
+ */
+export function SharePanel({ tokenId, owner }: SharePanelProps) {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const viewers = useQuery(viewersQuery(tokenId));
+  const [input, setInput] = useState('');
+  const [granting, setGranting] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!input.trim()) return;
+
+    setGranting(true);
+    setStatus('');
+    try {
+      const viewer = await resolveAddressInput(input);
+      if (isAddressEqual(viewer, owner)) {
+        throw new Error('You can already decrypt your own NFT');
+      }
+      if (viewers.data?.some(address => isAddressEqual(address, viewer))) {
+        throw new Error('This address can already decrypt the message');
+      }
+
+      setStatus('🙋 Awaiting wallet confirmation...');
+      await grantViewer(tokenId, viewer, {
+        onSubmitted: () => setStatus('⏳ Waiting for confirmation... Follow it under 🧾 Activity.'),
+      });
+      await invalidateAfterGrant(queryClient, tokenId, viewer);
+      setInput('');
+      setStatus('');
+      showToast(`🤝 ${viewer.slice(0, 6)}...${viewer.slice(-4)} can now decrypt NFT #${tokenId}`, 'success');
+    } catch (error) {
+      console.error('Share failed:', error);
+      setStatus('❌ ' + getErrorMessage(error, 'Share failed'));
+    } finally {
+      setGranting(false);
+    }
+  };
+
+  return (
+    <div className="share-panel">
+      <div className="share-viewers">
+        {viewers.isPending ? (
+          <span className="spinner"></span>
+        ) : viewers.isError ? (
+          <span>❌ {getErrorMessage(viewers.error, 'Failed to load viewers')}</span>
+        ) : viewers.data.length === 0 ? (
+          <span>Only you can decrypt this message</span>
+        ) : (
+          <>
+            Shared with{' '}
+            {viewers.data.map((viewer, index) => (
+              <span key={viewer}>
+                {index > 0 && ', '}
+                <Link to={`/address/${viewer}`}>{viewer.slice(0, 6)}...{viewer.slice(-4)}</Link>
+              </span>
+            ))}
+          </>
+        )}
+      </div>
+
+      <form className="share-form" onSubmit={handleSubmit}>
+        <input
+          className="text-input"
+          value={input}
+          onChange={event => setInput(event.target.value)}
+          placeholder="0x... or name.eth"
+          disabled={granting}
+        />
+        <button className="btn btn-small btn-primary" type="submit" disabled={granting || !input.trim()}>
+          {granting ? <span className="spinner"></span> : 'Grant'}
+        </button>
+      </form>
+
+      <div className="share-note">⚠️ Access to this message cannot be revoked; a new message sealed under Transfer is kept from viewers</div>
+
+      {status && <div className="share-status">{status}</div>}
+    </div>
+  );
+}
@@ -1,8 +1,24 @@
-import { useSimpleWallet } from '../hooks/useSimpleWallet';
+import { useState } from 'react';
+import { useWallet } from '../hooks/useWallet';
 import '../styles/SimpleWalletButton.css';
 
 export function SimpleWalletButton() {
-  const { address, isConnected, isLoading, error, connect, disconnect } = useSimpleWallet();
+  const { wallets, activeWallet, address, isConnected, isLoading, error, connect, disconnect } = useWallet();
+  const [showPicker, setShowPicker] = useState(false);
+
+  const handleConnect = () => {
+    // Several wallets installed: let the user choose which one to use
+    if (wallets.length > 1) {
+      setShowPicker(prev => !prev);
+    } else {
+      connect();
+    }
+  };
+
+  const handleChoose = (rdns: string) => {
+    setShowPicker(false);
+    connect(rdns);
+  };
 
   return (
     <div className="wallet-button-container">
@@ -10,6 +26,9 @@ export function SimpleWalletButton() {
       
       {isConnected && address ? (
         <div className="wallet-info">
+          {activeWallet?.info.icon && (
+            <img className="wallet-icon" src={activeWallet.info.icon} alt={activeWallet.info.name} title={activeWallet.info.name} />
+          )}
           <span className="wallet-address">
             {address.slice(0, 6)}...{address.slice(-4)}
           </span>
@@ -18,13 +37,28 @@ export function SimpleWalletButton() {
           </button>
         </div>
       ) : (
-        <button 
-          className="connect-btn" 
-          onClick={connect}
-          disabled={isLoading}
-        >
-          {isLoading ? 'Connecting...' : '💼 Connect Wallet'}
-        </button>
+        <div className="wallet-connect">
+          <button 
+            className="connect-btn" 
+            onClick={handleConnect}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Connecting...' : '💼 Connect Wallet'}
+          </button>
+
+          {showPicker && (
+            <ul className="wallet-picker">
+              {wallets.map(wallet => (
+                <li key={wallet.info.rdns}>
+                  <button className="wallet-option" onClick={() => handleChoose(wallet.info.rdns)}>
+                    {wallet.info.icon && <img className="wallet-icon" src={wallet.info.icon} alt="" />}
+                    {wallet.info.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       )}
     </div>
   );
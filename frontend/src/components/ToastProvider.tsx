@@ -0,0 +1,53 @@
+import { useState, useCallback, useMemo, useRef, useEffect, type ReactNode } from 'react';
+import { ToastContext, type ToastContextValue, type ToastKind } from '../hooks/useToast';
+import '../styles/Toast.css';
+
+const TOAST_DURATION_MS = 6000;
+const MAX_TOASTS = 4;
+
+interface Toast {
+  id: number;
+  message: string;
+  kind: ToastKind;
+}
+
+/**
+ * Renders notifications raised through useToast in the corner of the screen
+ */
+export function ToastProvider({ children }: { children: ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(1);
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const dismiss = useCallback((id: number) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, kind: ToastKind = 'info') => {
+    const id = nextId.current++;
+    setToasts(prev => [...prev, { id, message, kind }].slice(-MAX_TOASTS));
+    timers.current.set(id, setTimeout(() => dismiss(id), TOAST_DURATION_MS));
+  }, [dismiss]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(timer => clearTimeout(timer));
+  }, []);
+
+  const value = useMemo<ToastContextValue>(() => ({ showToast }), [showToast]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <div className="toast-stack" aria-live="polite">
+        {toasts.map(toast => (
+          <button key={toast.id} type="button" className={`toast toast-${toast.kind}`} onClick={() => dismiss(toast.id)}>
+            {toast.message}
+          </button>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+}
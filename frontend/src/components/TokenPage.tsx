@@ -0,0 +1,99 @@
+import { useQuery } from '@tanstack/react-query';
+import { IpfsImage } from './IpfsImage';
+import { Link } from './Link';
+import { ActivityTimeline } from './ActivityTimeline';
+import { PublicMessageBox, PublicRevealButton } from './PublicMessage';
+import { useWallet } from '../hooks/useWallet';
+import { useDeployment } from '../hooks/useDeployment';
+import { explorerLink } from '../config/networks';
+import { tokenSummaryQuery } from '../utils/nftQueries';
+import { getErrorMessage } from '../utils/errors';
+import '../styles/ExploreView.css';
+
+interface TokenPageProps {
+  tokenId: bigint;
+}
+
+/**
+ * Shareable page of a single token
+ */
+export function TokenPage({ tokenId }: TokenPageProps) {
+  const wallet = useWallet();
+  const { network, deployment } = useDeployment();
+  const { data: token, error } = useQuery(tokenSummaryQuery(tokenId));
+
+  if (error) {
+    return (
+      <div className="empty-state">
+        <div className="empty-icon">🔍</div>
+        <h3>Token #{tokenId.toString()} Not Found</h3>
+        <p>{getErrorMessage(error, 'Token not found')}</p>
+        <Link to="/explore" className="btn btn-primary">Explore the collection</Link>
+      </div>
+    );
+  }
+
+  if (!token) {
+    return (
+      <div className="empty-state">
+        <span className="spinner" style={{ width: '40px', height: '40px' }}></span>
+        <h3>Loading NFT #{tokenId.toString()}...</h3>
+        <p>Fetching from blockchain</p>
+      </div>
+    );
+  }
+
+  const ownerLink = explorerLink(network, 'address', token.owner);
+  const isOwner = wallet.address?.toLowerCase() === token.owner.toLowerCase();
+
+  return (
+    <div className="card token-page">
+      <div className="token-page-image nft-image-wrapper">
+        <IpfsImage uri={token.imageUri} alt={`NFT #${token.tokenId}`} className="nft-image" />
+      </div>
+
+      <div className="token-page-details">
+        <h2>NFT #{token.tokenId.toString()}</h2>
+
+        <dl className="token-facts">
+          <dt>Owner</dt>
+          <dd>
+            <Link to={`/address/${token.owner}`}>{token.owner}</Link>
+            {isOwner && ' (you)'}
+            {ownerLink && (
+              <>
+                {' '}
+                <a href={ownerLink} target="_blank" rel="noopener noreferrer">↗</a>
+              </>
+            )}
+          </dd>
+          <dt>Message</dt>
+          <dd>
+            {token.encryptedChunks > 0
+              ? `${token.messagePublic ? '📢 Public' : '🔒 Encrypted'} on-chain (${token.encryptedChunks} chunk${token.encryptedChunks === 1 ? '' : 's'})`
+              : '📭 No message'}
+          </dd>
+        </dl>
+
+        {token.messagePublic && <PublicMessageBox tokenId={token.tokenId} />}
+
+        {isOwner && token.encryptedChunks > 0 && (
+          <div className="info-box">
+            <span className="info-icon">ℹ️</span>
+            <span>
+              You own this NFT, reveal its message from your <Link to="/gallery">gallery</Link>.
+            </span>
+          </div>
+        )}
+
+        {isOwner && token.encryptedChunks > 0 && !token.messagePublic && !deployment.legacy && (
+          <PublicRevealButton tokenId={token.tokenId} />
+        )}
+
+        <Link to="/explore" className="btn btn-small">← Back to explore</Link>
+      </div>
+
+      <ActivityTimeline tokenId={token.tokenId} owner={token.owner} encrypted={token.encryptedChunks > 0} />
+    </div>
+  );
+}
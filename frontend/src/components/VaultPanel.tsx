@@ -0,0 +1,100 @@
+import { useState, useRef, type ChangeEvent } from 'react';
+import { isVaultUnlocked, unlockVault, lockVault, exportVault, importVault } from '../utils/messageVault';
+import '../styles/VaultPanel.css';
+
+interface VaultPanelProps {
+  address: string;
+}
+
+export function VaultPanel({ address }: VaultPanelProps) {
+  const [unlocked, setUnlocked] = useState(() => isVaultUnlocked(address));
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setStatus('');
+    try {
+      await action();
+    } catch (error) {
+      console.error('Vault action failed:', error);
+      setStatus('❌ ' + (error instanceof Error ? error.message : 'Vault action failed'));
+    } finally {
+      setUnlocked(isVaultUnlocked(address));
+      setBusy(false);
+    }
+  };
+
+  const handleUnlock = () => run(async () => {
+    await unlockVault(address);
+    setStatus('✅ Vault unlocked for this session');
+  });
+
+  const handleLock = () => {
+    lockVault(address);
+    setUnlocked(false);
+    setStatus('');
+  };
+
+  const handleExport = () => run(async () => {
+    const blob = await exportVault(address);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `private-nft-vault-${address.slice(0, 8)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setStatus('✅ Encrypted backup downloaded');
+  });
+
+  const handleImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    run(async () => {
+      const count = await importVault(address, file);
+      setStatus(`✅ Imported ${count} message(s)`);
+    });
+  };
+
+  return (
+    <div className="vault-panel">
+      <div className="vault-state">
+        <span className="vault-icon">{unlocked ? '🔓' : '🔐'}</span>
+        <span>{unlocked ? 'Message vault unlocked' : 'Message vault locked'}</span>
+      </div>
+
+      <div className="vault-actions">
+        {unlocked ? (
+          <>
+            <button className="btn btn-small btn-primary" onClick={handleExport} disabled={busy}>
+              ⬇️ Export backup
+            </button>
+            <button className="btn btn-small btn-primary" onClick={() => fileInputRef.current?.click()} disabled={busy}>
+              ⬆️ Import backup
+            </button>
+            <button className="btn btn-small" onClick={handleLock} disabled={busy}>
+              🔒 Lock
+            </button>
+          </>
+        ) : (
+          <button className="btn btn-small btn-primary" onClick={handleUnlock} disabled={busy}>
+            {busy ? <><span className="spinner"></span> Unlocking...</> : <>🔑 Unlock vault</>}
+          </button>
+        )}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json"
+        onChange={handleImport}
+        style={{ display: 'none' }}
+      />
+
+      {status && <div className="vault-status">{status}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, type FormEvent } from 'react';
+import type { Hex } from 'viem';
+import { useQuery } from '@tanstack/react-query';
+import { useWallet } from '../hooks/useWallet';
+import { useDeployment } from '../hooks/useDeployment';
+import { attributeSchemaQuery } from '../utils/nftQueries';
+import { proveAttribute, proveAttributeEncrypted, proveMessageEquals, type ProofResult } from '../utils/nftService';
+import { encryptMessage, encryptValues } from '../utils/fheEncryption';
+import { defaultAttributeInput, isIntegerAttribute } from '../utils/attributeSchema';
+import {
+  COMPARISON_SYMBOLS,
+  MESSAGE_SUBJECT,
+  comparisonsFor,
+  toOperandInput,
+  toPublicOperand,
+  type Comparison,
+} from '../utils/conditionProof';
+import { byteLength, truncateToBytes, MAX_MESSAGE_BYTES } from '../utils/messageCodec';
+import { navigate } from '../utils/router';
+import { getErrorMessage } from '../utils/errors';
+import '../styles/Verifier.css';
+
+/**
+ * Form proving a condition on a token's hidden message or attribute
+ * The contract compares the encrypted value and stores an encrypted true/false, which the
+ * proof page then decrypts. The value itself is never decrypted.
+ */
+export function VerifierPage() {
+  const wallet = useWallet();
+  const { network, deployment } = useDeployment();
+  const { data: schema = [] } = useQuery(attributeSchemaQuery());
+  const [tokenId, setTokenId] = useState('');
+  const [subject, setSubject] = useState<Hex>(MESSAGE_SUBJECT);
+  const [op, setOp] = useState<Comparison>('eq');
+  const [operand, setOperand] = useState('');
+  const [hideOperand, setHideOperand] = useState(false);
+  const [publicResult, setPublicResult] = useState(true);
+  const [proving, setProving] = useState(false);
+  const [status, setStatus] = useState('');
+
+  // The message is only compared for equality, with an encrypted candidate
+  const definition = schema.find(entry => entry.key === subject);
+  const comparisons: readonly Comparison[] = definition ? comparisonsFor(definition.type) : ['eq'];
+  const canSign = wallet.isConnected && !wallet.isWrongNetwork && !deployment.legacy;
+
+  const selectSubject = (key: Hex) => {
+    const next = schema.find(entry => entry.key === key);
+    setSubject(key);
+    setOp('eq');
+    setOperand(next ? defaultAttributeInput(next) : '');
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setStatus('');
+
+    if (!/^\d+$/.test(tokenId)) {
+      setStatus('Enter a token ID');
+      return;
+    }
+    if (!definition && !operand.trim()) {
+      setStatus('Enter the message to compare with');
+      return;
+    }
+
+    const onSubmitted = () => setStatus('⏳ Waiting for confirmation... Follow it under 🧾 Activity.');
+    try {
+      setProving(true);
+      let result: ProofResult;
+
+      if (!definition) {
+        setStatus('🔐 Encrypting the candidate message...');
+        const { encryptedChunks, inputProof } = await encryptMessage(operand);
+        setStatus('🙋 Awaiting wallet confirmation...');
+        result = await proveMessageEquals({ tokenId: BigInt(tokenId), encryptedChunks, inputProof, publicResult }, { onSubmitted });
+      } else {
+        const input = toOperandInput(definition, operand);
+        const condition = { tokenId: BigInt(tokenId), key: definition.key, op, publicResult };
+        if (hideOperand) {
+          setStatus('🔐 Encrypting the operand...');
+          const { handles: [encryptedOperand], inputProof } = await encryptValues([input]);
+          setStatus('🙋 Awaiting wallet confirmation...');
+          result = await proveAttributeEncrypted({ ...condition, encryptedOperand, inputProof }, { onSubmitted });
+        } else {
+          setStatus('🙋 Awaiting wallet confirmation...');
+          result = await proveAttribute({ ...condition, operand: toPublicOperand(input) }, { onSubmitted });
+        }
+      }
+
+      navigate(`/verify/${result.proofId}`);
+    } catch (error) {
+      console.error('Proof failed:', error);
+      setStatus('❌ ' + getErrorMessage(error, 'Proof failed'));
+    } finally {
+      setProving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2>Verify a Condition</h2>
+        <p>Prove a fact about an NFT's hidden message or attributes on {network.chain.name} without revealing them</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="verifier-form">
+        <div className="form-section">
+          <label className="form-label">Token ID</label>
+          <input
+            className="text-input"
+            type="number"
+            value={tokenId}
+            onChange={event => setTokenId(event.target.value.replace(/[^0-9]/g, ''))}
+            placeholder="1"
+            inputMode="numeric"
+            disabled={proving}
+          />
+        </div>
+
+        <div className="form-section">
+          <label className="form-label">Condition</label>
+          <div className="condition-row">
+            <select
+              className="text-input"
+              value={subject}
+              onChange={event => selectSubject(event.target.value as Hex)}
+              disabled={proving}
+            >
+              <option value={MESSAGE_SUBJECT}>message</option>
+              {schema.map(entry => (
+                <option key={entry.key} value={entry.key}>{entry.name} ({entry.type})</option>
+              ))}
+            </select>
+            <select
+              className="text-input condition-op"
+              value={op}
+              onChange={event => setOp(event.target.value as Comparison)}
+              disabled={proving || comparisons.length === 1}
+            >
+              {comparisons.map(option => (
+                <option key={option} value={option}>{COMPARISON_SYMBOLS[option]}</option>
+              ))}
+            </select>
+            {definition?.type === 'ebool' ? (
+              <select
+                className="text-input"
+                value={operand}
+                onChange={event => setOperand(event.target.value)}
+                disabled={proving}
+              >
+                <option value="false">No</option>
+                <option value="true">Yes</option>
+              </select>
+            ) : definition && (
+              <input
+                className="text-input"
+                value={operand}
+                onChange={event => setOperand(event.target.value)}
+                placeholder={isIntegerAttribute(definition.type) ? '50' : '0x...'}
+                inputMode={isIntegerAttribute(definition.type) ? 'numeric' : undefined}
+                disabled={proving}
+              />
+            )}
+          </div>
+          {!definition && (
+            <div className="input-wrapper">
+              <textarea
+                className="text-input"
+                value={operand}
+                onChange={event => setOperand(truncateToBytes(event.target.value, MAX_MESSAGE_BYTES))}
+                placeholder="Message the token's message must equal (encrypted before sending)"
+                rows={3}
+                disabled={proving}
+              />
+              <div className="char-count">{byteLength(operand)}/{MAX_MESSAGE_BYTES} bytes</div>
+            </div>
+          )}
+        </div>
+
+        <div className="form-section">
+          {definition && (
+            <label className="form-check">
+              <input
+                type="checkbox"
+                checked={hideOperand}
+                onChange={event => setHideOperand(event.target.checked)}
+                disabled={proving}
+              />
+              🔒 Encrypt the operand too
+            </label>
+          )}
+          <label className="form-check">
+            <input
+              type="checkbox"
+              checked={publicResult}
+              onChange={event => setPublicResult(event.target.checked)}
+              disabled={proving}
+            />
+            🌐 Public result: anyone with the proof link can verify it
+          </label>
+        </div>
+
+        <div className="info-box">
+          <span className="info-icon">ℹ️</span>
+          <span>
+            Only the owner of the token and the addresses it was shared with can request a proof.
+            The contract compares the encrypted value; only the true/false outcome can be decrypted,
+            by you{publicResult ? ' and by anyone' : ''}.
+          </span>
+        </div>
+
+        <button className="btn btn-primary btn-large" type="submit" disabled={proving || !canSign}>
+          {proving ? <><span className="spinner"></span> Proving...</> : '🔍 Prove condition'}
+        </button>
+
+        {deployment.legacy ? (
+          <div className="form-hint">The {deployment.label} contract predates condition proofs</div>
+        ) : !canSign && (
+          <div className="form-hint">Connect a wallet on {network.chain.name} to request a proof</div>
+        )}
+
+        {status && (
+          <div className={`status-message ${status.includes('✅') ? 'success' : 'error'}`}>
+            {status}
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
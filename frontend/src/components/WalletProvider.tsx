@@ -0,0 +1,172 @@
+import { useState, useEffect, useMemo, useCallback, useRef, type ReactNode } from 'react';
+import { WalletContext, type WalletContextValue } from '../hooks/useWallet';
+import { watchWallets, getLegacyInjectedWallet, type DiscoveredWallet } from '../utils/walletDiscovery';
+import { setActiveProvider, setWalletChainId, getBrowserProvider, getSigner, switchChain } from '../utils/walletConnection';
+import { getErrorMessage } from '../utils/errors';
+import { useDeployment } from '../hooks/useDeployment';
+
+// rdns of the wallet the user last connected with, used to reconnect on reload
+const CONNECTOR_STORAGE_KEY = 'wallet_connector';
+
+interface Connection {
+  wallet: DiscoveredWallet;
+  address: string;
+  chainId: number;
+}
+
+async function readConnection(wallet: DiscoveredWallet, method: 'eth_accounts' | 'eth_requestAccounts'): Promise<Connection | null> {
+  const accounts = await wallet.provider.request({ method }) as string[];
+  if (accounts.length === 0) {
+    return null;
+  }
+  const chainId = await wallet.provider.request({ method: 'eth_chainId' });
+  return { wallet, address: accounts[0], chainId: Number(chainId) };
+}
+
+/**
+ * Single wallet connection shared by the whole app
+ */
+export function WalletProvider({ children }: { children: ReactNode }) {
+  const [announced, setAnnounced] = useState<DiscoveredWallet[]>([]);
+  const [connection, setConnection] = useState<Connection | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const reconnectAttempted = useRef(false);
+  const { network } = useDeployment();
+
+  // Discover injected wallets
+  useEffect(() => {
+    return watchWallets(wallet => {
+      setAnnounced(prev => [...prev.filter(w => w.info.rdns !== wallet.info.rdns), wallet]);
+    });
+  }, []);
+
+  // Wallets that only inject window.ethereum are listed once no announced wallet owns it
+  const wallets = useMemo(() => {
+    const legacy = getLegacyInjectedWallet();
+    if (!legacy || announced.some(wallet => wallet.provider === legacy.provider)) {
+      return announced;
+    }
+    return [...announced, legacy];
+  }, [announced]);
+
+  const activate = useCallback((next: Connection | null) => {
+    setActiveProvider(next?.wallet.provider ?? null, next?.chainId ?? null);
+    setConnection(next);
+    if (next) {
+      localStorage.setItem(CONNECTOR_STORAGE_KEY, next.wallet.info.rdns);
+    }
+  }, []);
+
+  // Silently restore the previous session once its wallet has been discovered
+  useEffect(() => {
+    if (reconnectAttempted.current || connection) return;
+
+    const rdns = localStorage.getItem(CONNECTOR_STORAGE_KEY);
+    const wallet = rdns ? wallets.find(w => w.info.rdns === rdns) : undefined;
+    if (!wallet) return;
+
+    reconnectAttempted.current = true;
+    readConnection(wallet, 'eth_accounts')
+      .then(restored => {
+        if (restored) activate(restored);
+      })
+      .catch(err => console.error('Error checking wallet connection:', err));
+  }, [wallets, connection, activate]);
+
+  // Follow account and network changes of the connected wallet
+  const connectedProvider = connection?.wallet.provider;
+  useEffect(() => {
+    if (!connectedProvider) return;
+    const provider = connectedProvider;
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (accounts.length === 0) {
+        localStorage.removeItem(CONNECTOR_STORAGE_KEY);
+        activate(null);
+      } else {
+        setConnection(prev => (prev ? { ...prev, address: accounts[0] } : prev));
+      }
+    };
+    const handleChainChanged = (chainId: string) => {
+      setWalletChainId(Number(chainId));
+      setConnection(prev => (prev ? { ...prev, chainId: Number(chainId) } : prev));
+    };
+    const handleDisconnect = () => activate(null);
+
+    provider.on('accountsChanged', handleAccountsChanged);
+    provider.on('chainChanged', handleChainChanged);
+    provider.on('disconnect', handleDisconnect);
+
+    return () => {
+      provider.removeListener('accountsChanged', handleAccountsChanged);
+      provider.removeListener('chainChanged', handleChainChanged);
+      provider.removeListener('disconnect', handleDisconnect);
+    };
+  }, [connectedProvider, activate]);
+
+  const connect = useCallback(async (rdns?: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const preferred = rdns ?? localStorage.getItem(CONNECTOR_STORAGE_KEY);
+      const wallet = wallets.find(w => w.info.rdns === preferred) ?? (wallets.length === 1 ? wallets[0] : undefined);
+      if (!wallet) {
+        throw new Error(wallets.length === 0
+          ? 'No wallet found. Please install MetaMask or another browser wallet to continue.'
+          : 'Please choose a wallet to connect.');
+      }
+
+      const next = await readConnection(wallet, 'eth_requestAccounts');
+      if (!next) {
+        throw new Error('No account was shared by the wallet');
+      }
+      activate(next);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to connect wallet'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallets, activate]);
+
+  const disconnect = useCallback(() => {
+    // Injected wallets cannot be disconnected programmatically, forget the session instead
+    localStorage.removeItem(CONNECTOR_STORAGE_KEY);
+    setError(null);
+    activate(null);
+  }, [activate]);
+
+  const switchNetwork = useCallback(async () => {
+    if (!connection) return;
+    setError(null);
+
+    try {
+      await switchChain(connection.wallet.provider, network.chain);
+    } catch (err) {
+      setError(getErrorMessage(err, `Failed to switch to ${network.chain.name}`));
+    }
+  }, [connection, network]);
+
+  const value = useMemo<WalletContextValue>(() => {
+    const provider = connection?.wallet.provider ?? null;
+    return {
+      wallets,
+      activeWallet: connection?.wallet ?? null,
+      address: connection?.address ?? null,
+      chainId: connection?.chainId ?? null,
+      isConnected: connection !== null,
+      isWrongNetwork: connection !== null && connection.chainId !== network.chain.id,
+      isLoading,
+      error,
+      provider,
+      browserProvider: provider ? getBrowserProvider() : null,
+      connect,
+      disconnect,
+      switchNetwork,
+      getSigner: () => getSigner(connection?.address),
+    };
+  }, [wallets, connection, network, isLoading, error, connect, disconnect, switchNetwork]);
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
+}
@@ -0,0 +1,74 @@
+import { useState, type FormEvent } from 'react';
+import type { Address } from 'viem';
+import { resolveAddressInput } from '../utils/ens';
+import { getErrorMessage } from '../utils/errors';
+import '../styles/WatchAddressBar.css';
+
+interface WatchAddressBarProps {
+  /** Address currently browsed in watch-only mode, null for the connected wallet's own tokens */
+  watching: Address | null;
+  onWatch: (address: Address | null) => void;
+  /** Label of the button that leaves watch-only mode */
+  clearLabel: string;
+}
+
+/**
+ * Browse the tokens of any address or ENS name without connecting a wallet
+ */
+export function WatchAddressBar({ watching, onWatch, clearLabel }: WatchAddressBarProps) {
+  const [input, setInput] = useState('');
+  const [resolving, setResolving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!input.trim()) return;
+
+    setResolving(true);
+    setError('');
+    try {
+      onWatch(await resolveAddressInput(input));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not resolve address'));
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className="watch-bar">
+      <form className="watch-form" onSubmit={handleSubmit}>
+        <input
+          className="text-input"
+          value={input}
+          onChange={event => setInput(event.target.value)}
+          placeholder="Browse any address or ENS name (0x... / name.eth)"
+          disabled={resolving}
+        />
+        <button className="btn btn-small btn-primary" type="submit" disabled={resolving || !input.trim()}>
+          {resolving ? 'Resolving...' : '🔍 Browse'}
+        </button>
+      </form>
+
+      {watching && (
+        <div className="watch-current">
+          <span>
+            👀 Watch-only: <code>{watching.slice(0, 6)}...{watching.slice(-4)}</code>
+          </span>
+          <button
+            className="btn btn-small"
+            type="button"
+            onClick={() => {
+              setInput('');
+              onWatch(null);
+            }}
+          >
+            {clearLabel}
+          </button>
+        </div>
+      )}
+
+      {error && <div className="watch-error">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { defineChain, type Address, type Chain } from 'viem';
+import { sepolia } from 'viem/chains';
+import { SepoliaConfig, type FhevmInstanceConfig } from '@zama-fhe/relayer-sdk/web';
+
+/**
+ * Registry of the networks and contract deployments the app can talk to
+ * Networks are keyed by chain id; one network can carry several deployments
+ * (e.g. staging and prod on Sepolia).
+ */
+
+export interface DeploymentConfig {
+  /** Unique within its network, e.g. "prod" */
+  id: string;
+  label: string;
+  contracts: {
+    hiddenAttributeNFT: Address;
+  };
+  /** Runs the original contract, which only knows single-chunk `mint` and `getEncryptedMessage` */
+  legacy?: boolean;
+}
+
+export type FheConfig =
+  | { mode: 'relayer'; instance: FhevmInstanceConfig }
+  // Local node running MockHiddenAttributeNFT, decrypted by the mock FHEVM instance
+  | { mode: 'mock' };
+
+export interface NetworkConfig {
+  chain: Chain;
+  fhe: FheConfig;
+  rpcUrl: string;
+  /** Block explorer base URL, null when the chain has none */
+  explorerUrl: string | null;
+  /** Preferred IPFS gateway for this network's content */
+  ipfsGateway: string;
+  /** Blocks an event must be buried under before the app treats it as final */
+  confirmations: number;
+  /** How often to poll for new blocks, in milliseconds */
+  pollIntervalMs: number;
+  deployments: DeploymentConfig[];
+}
+
+const env = import.meta.env;
+
+// Local Hardhat/anvil chain used with the mock contract
+export const MOCK_CHAIN = defineChain({
+  id: Number(env.VITE_MOCK_CHAIN_ID) || 31337,
+  name: 'Local Mock FHEVM',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: {
+    default: { http: [env.VITE_MOCK_RPC_URL || 'http://127.0.0.1:8545'] },
+  },
+});
+
+const sepoliaDeployments: DeploymentConfig[] = [];
+if (env.VITE_CONTRACT_ADDRESS) {
+  sepoliaDeployments.push({
+    id: 'prod',
+    label: 'Sepolia',
+    contracts: { hiddenAttributeNFT: env.VITE_CONTRACT_ADDRESS as Address },
+  });
+}
+if (env.VITE_STAGING_CONTRACT_ADDRESS) {
+  sepoliaDeployments.push({
+    id: 'staging',
+    label: 'Sepolia (staging)',
+    contracts: { hiddenAttributeNFT: env.VITE_STAGING_CONTRACT_ADDRESS as Address },
+  });
+}
+// Deployed before multi-chunk messages, only registered on request so it is never picked by default
+if (env.VITE_LEGACY_DEPLOYMENT === 'true') {
+  sepoliaDeployments.push({
+    id: 'legacy',
+    label: 'Sepolia (original)',
+    contracts: { hiddenAttributeNFT: '0xb23e1c3E307C161bc97cF1540e730e36d98755e2' },
+    legacy: true,
+  });
+}
+
+export const NETWORKS: Record<number, NetworkConfig> = {
+  [sepolia.id]: {
+    chain: sepolia,
+    fhe: { mode: 'relayer', instance: SepoliaConfig },
+    rpcUrl: env.VITE_SEPOLIA_RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com',
+    explorerUrl: 'https://sepolia.etherscan.io',
+    ipfsGateway: env.VITE_PINATA_GATEWAY || 'https://gateway.pinata.cloud',
+    confirmations: 2,
+    pollIntervalMs: 12_000,
+    deployments: sepoliaDeployments,
+  },
+};
+
+// The local network only exists once a mock contract has been deployed
+if (env.VITE_MOCK_CONTRACT_ADDRESS) {
+  NETWORKS[MOCK_CHAIN.id] = {
+    chain: MOCK_CHAIN,
+    fhe: { mode: 'mock' },
+    rpcUrl: MOCK_CHAIN.rpcUrls.default.http[0],
+    explorerUrl: null,
+    ipfsGateway: env.VITE_KUBO_GATEWAY || 'http://127.0.0.1:8080',
+    // Local nodes do not reorg
+    confirmations: 0,
+    pollIntervalMs: 2_000,
+    deployments: [
+      {
+        id: 'mock',
+        label: 'Local mock',
+        contracts: { hiddenAttributeNFT: env.VITE_MOCK_CONTRACT_ADDRESS as Address },
+      },
+    ],
+  };
+}
+
+export interface ActiveDeployment {
+  /** `${chainId}:${deploymentId}`, stable across reloads */
+  key: string;
+  network: NetworkConfig;
+  deployment: DeploymentConfig;
+}
+
+/**
+ * Every registered deployment, in registry order
+ */
+export function listDeployments(): ActiveDeployment[] {
+  return Object.values(NETWORKS).flatMap(network =>
+    network.deployments.map(deployment => ({
+      key: `${network.chain.id}:${deployment.id}`,
+      network,
+      deployment,
+    }))
+  );
+}
+
+/**
+ * Look up a deployment by key
+ */
+export function findDeployment(key: string): ActiveDeployment | undefined {
+  return listDeployments().find(entry => entry.key === key);
+}
+
+/**
+ * Link to an address or transaction on the network's block explorer
+ * @returns null when the network has no explorer
+ */
+export function explorerLink(network: NetworkConfig, kind: 'address' | 'tx', value: string): string | null {
+  return network.explorerUrl ? `${network.explorerUrl}/${kind}/${value}` : null;
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getActiveDeployment, subscribeDeployment } from '../utils/activeDeployment';
+import type { ActiveDeployment } from '../config/networks';
+
+/**
+ * The active deployment, re-rendering when the user switches
+ */
+export function useDeployment(): ActiveDeployment {
+  return useSyncExternalStore(subscribeDeployment, getActiveDeployment);
+}
@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react';
+import type { FheInitStage } from '../workers/fheProtocol';
+
+export type FheStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface FheContextValue {
+  /** idle until a wallet is connected on the active deployment's chain */
+  status: FheStatus;
+  /** Initialization stage and progress between 0 and 1 */
+  progress: { stage: FheInitStage; value: number } | null;
+  error: string | null;
+  /** Initialize again after an error */
+  retry: () => void;
+}
+
+export const FheContext = createContext<FheContextValue | null>(null);
+
+/**
+ * Access the shared FHE instance status
+ * @throws If used outside of FheProvider
+ */
+export function useFhe(): FheContextValue {
+  const context = useContext(FheContext);
+  if (!context) {
+    throw new Error('useFhe must be used within an FheProvider');
+  }
+  return context;
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchIpfs, evictIpfsCache, parseIpfsUri } from '../utils/ipfsGateway';
+
+interface IpfsImageState {
+  src: string | null;
+  gateway: string | null;
+  verified: boolean | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load an image URI, resolving ipfs:// through the gateway list
+ * data: and http(s) URIs are passed through unchanged
+ */
+export function useIpfsImage(uri: string | null | undefined) {
+  const [attempt, setAttempt] = useState(0);
+  const [state, setState] = useState<IpfsImageState>({
+    src: null,
+    gateway: null,
+    verified: null,
+    isLoading: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!uri) {
+      setState({ src: null, gateway: null, verified: null, isLoading: false, error: null });
+      return;
+    }
+
+    if (!parseIpfsUri(uri)) {
+      setState({ src: uri, gateway: null, verified: null, isLoading: false, error: null });
+      return;
+    }
+
+    let cancelled = false;
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    fetchIpfs(uri)
+      .then(result => {
+        if (!cancelled) {
+          setState({
+            src: result.objectUrl,
+            gateway: result.gateway,
+            verified: result.verified,
+            isLoading: false,
+            error: null,
+          });
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load IPFS image:', error);
+        if (!cancelled) {
+          setState({
+            src: null,
+            gateway: null,
+            verified: null,
+            isLoading: false,
+            error: error instanceof Error ? error.message : 'Failed to load image',
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uri, attempt]);
+
+  const retry = useCallback(() => {
+    if (uri) {
+      evictIpfsCache(uri);
+    }
+    setAttempt(prev => prev + 1);
+  }, [uri]);
+
+  return { ...state, retry };
+}
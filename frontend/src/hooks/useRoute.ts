@@ -0,0 +1,10 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getPathname, parseRoute, subscribeRoute, type Route } from '../utils/router';
+
+/**
+ * The current route, re-rendering on navigation
+ */
+export function useRoute(): Route {
+  const pathname = useSyncExternalStore(subscribeRoute, getPathname);
+  return useMemo(() => parseRoute(pathname), [pathname]);
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+
+export type ToastKind = 'info' | 'success' | 'error';
+
+export interface ToastContextValue {
+  showToast: (message: string, kind?: ToastKind) => void;
+}
+
+export const ToastContext = createContext<ToastContextValue | null>(null);
+
+/**
+ * Show short-lived notifications
+ * @throws If used outside of ToastProvider
+ */
+export function useToast(): ToastContextValue {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getTransactions, subscribeTransactions, type TrackedTransaction } from '../utils/txTracker';
+
+/**
+ * Every tracked transaction, newest first, re-rendering as they progress
+ */
+export function useTransactions(): TrackedTransaction[] {
+  return useSyncExternalStore(subscribeTransactions, getTransactions);
+}
@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { isAddressEqual, zeroAddress, type Address } from 'viem';
+import { watchTransfers } from '../utils/transferWatcher';
+import { nftKeys } from '../utils/nftQueries';
+import { useToast } from './useToast';
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+/**
+ * Keep the account's gallery in sync with confirmed Transfer events and announce them
+ * Owned token lists are patched in the query cache instead of being refetched.
+ */
+export function useTransferSubscription(account: Address | null): void {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    if (!account) return;
+
+    return watchTransfers(account, transfers => {
+      for (const { tokenId, from, to } of transfers) {
+        const received = isAddressEqual(to, account);
+        const sent = isAddressEqual(from, account);
+        const minted = isAddressEqual(from, zeroAddress);
+
+        queryClient.setQueryData<readonly bigint[]>(nftKeys.owned(account), owned => {
+          if (!owned) return owned;
+          const others = owned.filter(id => id !== tokenId);
+          return received ? [...others, tokenId] : others;
+        });
+        // The counterparty's list and the token's owner changed too
+        if (!minted) {
+          void queryClient.invalidateQueries({ queryKey: nftKeys.owned(received ? from : to) });
+        }
+        void queryClient.invalidateQueries({ queryKey: nftKeys.summary(tokenId) });
+        void queryClient.invalidateQueries({ queryKey: nftKeys.activity(tokenId) });
+        if (minted) {
+          void queryClient.invalidateQueries({ queryKey: nftKeys.collection() });
+        }
+
+        if (minted) {
+          showToast(`✨ NFT #${tokenId} was minted to your wallet`, 'success');
+        } else if (received && !sent) {
+          showToast(`📥 You received NFT #${tokenId} from ${shortAddress(from)}, seal a new message under Transfer to keep it from former holders`, 'success');
+        } else if (sent && !received) {
+          showToast(`📤 NFT #${tokenId} was sent to ${shortAddress(to)}`);
+        }
+      }
+    });
+  }, [account, queryClient, showToast]);
+}
@@ -0,0 +1,42 @@
+import { createContext, useContext } from 'react';
+import type { BrowserProvider, JsonRpcSigner } from 'ethers';
+import type { EIP1193Provider } from 'viem';
+import type { DiscoveredWallet } from '../utils/walletDiscovery';
+
+export interface WalletContextValue {
+  /** Wallets discovered through EIP-6963 (plus a legacy window.ethereum entry) */
+  wallets: DiscoveredWallet[];
+  /** The wallet the user connected with */
+  activeWallet: DiscoveredWallet | null;
+  address: string | null;
+  chainId: number | null;
+  isConnected: boolean;
+  /** Connected, but to another chain than the active deployment's (writes are blocked) */
+  isWrongNetwork: boolean;
+  isLoading: boolean;
+  error: string | null;
+  /** EIP-1193 provider of the connected wallet */
+  provider: EIP1193Provider | null;
+  /** Ethers provider of the connected wallet */
+  browserProvider: BrowserProvider | null;
+  /** Connect a wallet by rdns, or the only / previously used one when omitted */
+  connect: (rdns?: string) => Promise<void>;
+  disconnect: () => void;
+  /** Ask the wallet to switch to (or add) the active deployment's chain */
+  switchNetwork: () => Promise<void>;
+  getSigner: () => Promise<JsonRpcSigner>;
+}
+
+export const WalletContext = createContext<WalletContextValue | null>(null);
+
+/**
+ * Access the shared wallet connection
+ * @throws If used outside of WalletProvider
+ */
+export function useWallet(): WalletContextValue {
+  const context = useContext(WalletContext);
+  if (!context) {
+    throw new Error('useWallet must be used within a WalletProvider');
+  }
+  return context;
+}
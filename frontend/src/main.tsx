@@ -10,6 +10,21 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { NETWORKS, MOCK_CHAIN } from './config/networks'
+import { createMockEip1193Provider } from './utils/mockEip1193'
+import { announceWallet } from './utils/walletDiscovery'
+
+// With a local mock deployment, offer the node's dev accounts as a wallet, no extension needed
+const mockNetwork = NETWORKS[MOCK_CHAIN.id]
+if (mockNetwork) {
+  announceWallet({
+    info: { uuid: crypto.randomUUID(), name: 'Local node (mock)', icon: '', rdns: 'local.mock-fhevm' },
+    provider: createMockEip1193Provider(
+      mockNetwork.rpcUrl,
+      Number(import.meta.env.VITE_MOCK_ACCOUNT_INDEX) || 0
+    ),
+  })
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
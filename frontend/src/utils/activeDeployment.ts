@@ -0,0 +1,73 @@
+import type { Address, Chain } from 'viem';
+import { findDeployment, listDeployments, type ActiveDeployment } from '../config/networks';
+
+/**
+ * The deployment the app currently talks to
+ * Resolved at call time by every module so switching deployments needs no reload.
+ */
+
+const STORAGE_KEY = 'active_deployment';
+
+type Listener = (deployment: ActiveDeployment) => void;
+
+const listeners = new Set<Listener>();
+
+function initialDeployment(): ActiveDeployment {
+  const key = localStorage.getItem(STORAGE_KEY) ?? import.meta.env.VITE_DEFAULT_DEPLOYMENT;
+  const deployment = (key ? findDeployment(key) : undefined) ?? listDeployments()[0];
+  if (!deployment) {
+    throw new Error('No deployment configured: set VITE_CONTRACT_ADDRESS (see frontend/.env.example)');
+  }
+  return deployment;
+}
+
+let active = initialDeployment();
+
+export function getActiveDeployment(): ActiveDeployment {
+  return active;
+}
+
+/**
+ * Whether the active deployment runs the original single-chunk contract (see DeploymentConfig.legacy)
+ */
+export function isLegacyDeployment(): boolean {
+  return active.deployment.legacy === true;
+}
+
+/**
+ * Switch to another registered deployment and remember the choice
+ * @throws If no deployment is registered under the key
+ */
+export function setActiveDeployment(key: string): void {
+  const next = findDeployment(key);
+  if (!next) {
+    throw new Error(`Unknown deployment ${key}`);
+  }
+  if (next.key === active.key) {
+    return;
+  }
+
+  active = next;
+  localStorage.setItem(STORAGE_KEY, key);
+  console.log('🌐 Active deployment:', next.deployment.label);
+  listeners.forEach(listener => listener(next));
+}
+
+/**
+ * Be notified when the active deployment changes
+ * @returns Function that unsubscribes
+ */
+export function subscribeDeployment(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Chain of the active deployment */
+export function getActiveChain(): Chain {
+  return active.network.chain;
+}
+
+/** HiddenAttributeNFT address of the active deployment */
+export function getContractAddress(): Address {
+  return active.deployment.contracts.hiddenAttributeNFT;
+}
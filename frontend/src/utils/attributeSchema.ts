@@ -0,0 +1,118 @@
+import { getAddress, isAddress, type Hex } from 'viem';
+import type { EncryptInput } from '../workers/fheProtocol';
+
+/**
+ * Typed encrypted attributes declared by the collection schema
+ * The contract stores one handle per attribute key (keccak256 of the name); values are
+ * validated against the declared type and bounds here, before they are encrypted.
+ */
+
+/** FHE types, in the order of the contract's AttributeType enum */
+export const ATTRIBUTE_TYPES = ['ebool', 'euint8', 'euint32', 'euint64', 'eaddress'] as const;
+
+export type AttributeType = (typeof ATTRIBUTE_TYPES)[number];
+
+export interface AttributeDefinition {
+  key: Hex;
+  name: string;
+  type: AttributeType;
+  /** Bounds of integer attributes, 0 for the other types */
+  min: bigint;
+  max: bigint;
+}
+
+/** A decrypted attribute, as returned by the relayer for its FHE type */
+export type AttributeValue = bigint | boolean | string;
+
+const INTEGER_BITS: Partial<Record<AttributeType, 8 | 32 | 64>> = { euint8: 8, euint32: 32, euint64: 64 };
+
+/**
+ * Thrown when a form value does not match its attribute's type or bounds
+ */
+export class InvalidAttributeValueError extends Error {
+  constructor(definition: AttributeDefinition, reason: string) {
+    super(`${definition.name}: ${reason}`);
+    this.name = 'InvalidAttributeValueError';
+  }
+}
+
+export function isIntegerAttribute(type: AttributeType): boolean {
+  return INTEGER_BITS[type] !== undefined;
+}
+
+/**
+ * Largest value an integer type can hold
+ */
+export function maxValueOf(type: AttributeType): bigint {
+  const bits = INTEGER_BITS[type];
+  return bits ? (1n << BigInt(bits)) - 1n : 0n;
+}
+
+/**
+ * Convert a schema entry returned by the contract
+ */
+export function toAttributeDefinition(raw: {
+  key: Hex;
+  name: string;
+  fheType: number;
+  minValue: bigint;
+  maxValue: bigint;
+}): AttributeDefinition {
+  const type = ATTRIBUTE_TYPES[raw.fheType];
+  if (!type) {
+    throw new Error(`Unknown attribute type ${raw.fheType} for ${raw.name}`);
+  }
+  return { key: raw.key, name: raw.name, type, min: raw.minValue, max: raw.maxValue };
+}
+
+/**
+ * Turn the form value of an attribute into an input for the encrypted input builder
+ * @throws InvalidAttributeValueError when the value does not fit the declaration
+ */
+export function toEncryptInput(definition: AttributeDefinition, input: string): EncryptInput {
+  const value = input.trim();
+  switch (definition.type) {
+    case 'ebool':
+      if (value !== 'true' && value !== 'false') {
+        throw new InvalidAttributeValueError(definition, 'choose yes or no');
+      }
+      return { type: 'bool', value: value === 'true' };
+    case 'eaddress':
+      if (!isAddress(value)) {
+        throw new InvalidAttributeValueError(definition, 'enter a valid address (0x...)');
+      }
+      return { type: 'address', value: getAddress(value) };
+    default: {
+      if (!/^\d+$/.test(value)) {
+        throw new InvalidAttributeValueError(definition, 'enter a whole number');
+      }
+      const number = BigInt(value);
+      if (number < definition.min || number > definition.max) {
+        throw new InvalidAttributeValueError(definition, `must be between ${definition.min} and ${definition.max}`);
+      }
+      return { type: `uint${INTEGER_BITS[definition.type]}` as 'uint8' | 'uint32' | 'uint64', value: number };
+    }
+  }
+}
+
+/**
+ * Human readable form of a decrypted attribute
+ */
+export function formatAttributeValue(definition: AttributeDefinition, value: AttributeValue): string {
+  if (definition.type === 'ebool') {
+    return value === true ? 'Yes' : 'No';
+  }
+  if (definition.type === 'eaddress') {
+    return getAddress(String(value));
+  }
+  return value.toString();
+}
+
+/**
+ * Default form value of an attribute: the lower bound, "no" or empty
+ */
+export function defaultAttributeInput(definition: AttributeDefinition): string {
+  if (definition.type === 'ebool') return 'false';
+  if (definition.type === 'eaddress') return '';
+  return definition.min.toString();
+}
@@ -0,0 +1,134 @@
+import { decodeBase58, toBeArray } from 'ethers';
+
+/**
+ * Just enough CID / UnixFS parsing to verify gateway responses locally
+ */
+
+export const CODEC_RAW = 0x55;
+export const CODEC_DAG_PB = 0x70;
+export const HASH_SHA2_256 = 0x12;
+
+export interface ParsedCID {
+  version: 0 | 1;
+  codec: number;
+  hashCode: number;
+  digest: Uint8Array;
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [value: number, next: number] {
+  let value = 0;
+  let shift = 0;
+  let index = offset;
+  while (index < bytes.length) {
+    const byte = bytes[index++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) {
+      return [value, index];
+    }
+    shift += 7;
+  }
+  throw new Error('Truncated varint');
+}
+
+function decodeBase32(value: string): Uint8Array {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz234567';
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of value) {
+    const index = alphabet.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Parse a CIDv0 (Qm...) or CIDv1 string in base32 (b...) or base58btc (z...)
+ * @throws If the CID cannot be parsed
+ */
+export function parseCID(cid: string): ParsedCID {
+  if (cid.startsWith('Qm') && cid.length === 46) {
+    const bytes = toBeArray(decodeBase58(cid));
+    return { version: 0, codec: CODEC_DAG_PB, hashCode: bytes[0], digest: bytes.slice(2) };
+  }
+
+  let bytes: Uint8Array;
+  if (cid.startsWith('b')) {
+    bytes = decodeBase32(cid.slice(1).toLowerCase());
+  } else if (cid.startsWith('z')) {
+    bytes = toBeArray(decodeBase58(cid.slice(1)));
+  } else {
+    throw new Error(`Unsupported CID encoding: ${cid}`);
+  }
+
+  const [version, afterVersion] = readVarint(bytes, 0);
+  if (version !== 1) {
+    throw new Error(`Unsupported CID version ${version}`);
+  }
+  const [codec, afterCodec] = readVarint(bytes, afterVersion);
+  const [hashCode, afterHash] = readVarint(bytes, afterCodec);
+  const [length, digestStart] = readVarint(bytes, afterHash);
+
+  return { version: 1, codec, hashCode, digest: bytes.slice(digestStart, digestStart + length) };
+}
+
+/**
+ * Extract file contents from a single-block dag-pb UnixFS node
+ * @returns The file bytes, or null when the node links to further blocks
+ */
+export function decodeUnixFSBlock(block: Uint8Array): Uint8Array | null {
+  let data: Uint8Array = new Uint8Array();
+  let index = 0;
+
+  // PBNode: Links = field 2 (repeated), Data = field 1
+  while (index < block.length) {
+    const [key, afterKey] = readVarint(block, index);
+    const [length, start] = readVarint(block, afterKey);
+    const field = key >> 3;
+    if (field === 2) {
+      return null;
+    }
+    if (field === 1) {
+      data = block.subarray(start, start + length);
+    }
+    index = start + length;
+  }
+
+  // UnixFS Data: Type = field 1 (varint), Data = field 2 (bytes)
+  index = 0;
+  while (index < data.length) {
+    const [key, afterKey] = readVarint(data, index);
+    const wireType = key & 0x7;
+    if (wireType === 0) {
+      index = readVarint(data, afterKey)[1];
+      continue;
+    }
+    const [length, start] = readVarint(data, afterKey);
+    if (key >> 3 === 2) {
+      return data.subarray(start, start + length);
+    }
+    index = start + length;
+  }
+
+  return new Uint8Array();
+}
+
+/**
+ * Check that bytes hash to the CID's sha2-256 digest
+ * Only meaningful for sha2-256 CIDs: callers skip other hash functions rather than report a mismatch.
+ */
+export async function digestMatches(cid: ParsedCID, bytes: Uint8Array<ArrayBuffer>): Promise<boolean> {
+  if (cid.hashCode !== HASH_SHA2_256) {
+    return false;
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return digest.length === cid.digest.length && digest.every((byte, i) => byte === cid.digest[i]);
+}
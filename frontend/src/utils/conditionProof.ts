@@ -0,0 +1,129 @@
+import { getAddress, zeroHash, type Address, type Hex } from 'viem';
+import {
+  InvalidAttributeValueError,
+  formatAttributeValue,
+  isIntegerAttribute,
+  maxValueOf,
+  toEncryptInput,
+  type AttributeDefinition,
+  type AttributeType,
+} from './attributeSchema';
+import type { EncryptInput } from '../workers/fheProtocol';
+
+/**
+ * Condition proofs: comparisons computed by the contract on a token's encrypted data
+ * The contract stores an encrypted boolean per proof; only the outcome is ever decrypted,
+ * by the requester or by anyone when the proof was requested with a public result.
+ */
+
+/** Comparisons, in the order of the contract's Comparison enum */
+export const COMPARISONS = ['eq', 'ne', 'ge', 'gt', 'le', 'lt'] as const;
+
+export type Comparison = (typeof COMPARISONS)[number];
+
+export const COMPARISON_SYMBOLS: Record<Comparison, string> = {
+  eq: '=',
+  ne: '≠',
+  ge: '≥',
+  gt: '>',
+  le: '≤',
+  lt: '<',
+};
+
+/** Subject of proofs about the token's message rather than an attribute (HiddenAttributeNFT.MESSAGE_SUBJECT) */
+export const MESSAGE_SUBJECT: Hex = zeroHash;
+
+export interface ConditionProof {
+  proofId: bigint;
+  tokenId: bigint;
+  requester: Address;
+  /** Attribute key, or MESSAGE_SUBJECT */
+  subject: Hex;
+  op: Comparison;
+  /** Public operand, 0 when it was encrypted */
+  operand: bigint;
+  encryptedOperand: boolean;
+  publicResult: boolean;
+  /** ebool handle holding the outcome */
+  result: Hex;
+  blockNumber: bigint;
+  /** Transaction that requested the proof, null if its event could not be found */
+  txHash: Hex | null;
+}
+
+/**
+ * Comparisons the contract accepts for an attribute type: booleans and addresses are not ordered
+ */
+export function comparisonsFor(type: AttributeType): readonly Comparison[] {
+  return type === 'ebool' || type === 'eaddress' ? ['eq', 'ne'] : COMPARISONS;
+}
+
+/**
+ * Turn the form value of an operand into an input typed as the contract compares the attribute:
+ * integers as uint64 (any value, not only the declared bounds), booleans and addresses as themselves
+ * @throws InvalidAttributeValueError when the value does not fit
+ */
+export function toOperandInput(definition: AttributeDefinition, input: string): EncryptInput {
+  if (!isIntegerAttribute(definition.type)) {
+    return toEncryptInput(definition, input);
+  }
+  const value = input.trim();
+  if (!/^\d+$/.test(value) || BigInt(value) > maxValueOf('euint64')) {
+    throw new InvalidAttributeValueError(definition, `enter a whole number up to ${maxValueOf('euint64')}`);
+  }
+  return { type: 'uint64', value: BigInt(value) };
+}
+
+/**
+ * Public operand of an attribute proof, as the contract takes it (uint256)
+ */
+export function toPublicOperand(input: EncryptInput): bigint {
+  if (input.type === 'bool') return input.value ? 1n : 0n;
+  if (input.type === 'address') return BigInt(input.value);
+  return input.value;
+}
+
+/**
+ * Convert a proof returned by the contract
+ */
+export function toConditionProof(proofId: bigint, txHash: Hex | null, raw: {
+  tokenId: bigint;
+  requester: Address;
+  subject: Hex;
+  op: number;
+  operand: bigint;
+  encryptedOperand: boolean;
+  publicResult: boolean;
+  result: Hex;
+  blockNumber: bigint;
+}): ConditionProof {
+  const op = COMPARISONS[raw.op];
+  if (!op) {
+    throw new Error(`Unknown comparison ${raw.op} in proof #${proofId}`);
+  }
+  return { proofId, ...raw, op, txHash };
+}
+
+/**
+ * Human readable condition, e.g. "power ≥ 50" or "message = 🔒 hidden value"
+ * @param schema Collection schema, to name the attribute and format its operand
+ */
+export function describeCondition(proof: ConditionProof, schema: AttributeDefinition[] = []): string {
+  const symbol = COMPARISON_SYMBOLS[proof.op];
+  if (proof.subject === MESSAGE_SUBJECT) {
+    return `message ${symbol} 🔒 hidden value`;
+  }
+
+  const definition = schema.find(entry => entry.key === proof.subject);
+  const name = definition?.name ?? `${proof.subject.slice(0, 10)}…`;
+  if (proof.encryptedOperand) {
+    return `${name} ${symbol} 🔒 hidden value`;
+  }
+  if (!definition) {
+    return `${name} ${symbol} ${proof.operand}`;
+  }
+  const operand = definition.type === 'eaddress'
+    ? getAddress(`0x${proof.operand.toString(16).padStart(40, '0')}`)
+    : definition.type === 'ebool' ? proof.operand === 1n : proof.operand;
+  return `${name} ${symbol} ${formatAttributeValue(definition, operand)}`;
+}
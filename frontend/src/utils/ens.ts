@@ -0,0 +1,54 @@
+import { createPublicClient, http, isAddress, getAddress, type Address, type PublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
+import { normalize } from 'viem/ens';
+
+/**
+ * Resolve what a user typed (an address or an ENS name) to an address
+ * ENS names are looked up on mainnet, where users register them, whatever chain the app runs on.
+ */
+
+/**
+ * Thrown when an ENS name has no address record
+ */
+export class EnsNameNotFoundError extends Error {
+  constructor(name: string) {
+    super(`ENS name ${name} does not resolve to an address`);
+    this.name = 'EnsNameNotFoundError';
+  }
+}
+
+let ensClient: PublicClient | null = null;
+
+function getEnsClient(): PublicClient {
+  if (!ensClient) {
+    ensClient = createPublicClient({
+      chain: mainnet,
+      transport: http(import.meta.env.VITE_MAINNET_RPC_URL || 'https://ethereum-rpc.publicnode.com'),
+    });
+  }
+  return ensClient;
+}
+
+function looksLikeEnsName(input: string): boolean {
+  return /^[^\s.]+(\.[^\s.]+)+$/.test(input.trim()) && !input.trim().startsWith('0x');
+}
+
+/**
+ * Resolve an address or ENS name
+ * @throws If the input is neither, or EnsNameNotFoundError when the name has no address
+ */
+export async function resolveAddressInput(input: string): Promise<Address> {
+  const value = input.trim();
+  if (isAddress(value)) {
+    return getAddress(value);
+  }
+  if (!looksLikeEnsName(value)) {
+    throw new Error('Enter a 0x address or an ENS name');
+  }
+
+  const address = await getEnsClient().getEnsAddress({ name: normalize(value) });
+  if (!address) {
+    throw new EnsNameNotFoundError(value);
+  }
+  return address;
+}
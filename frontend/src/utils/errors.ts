@@ -0,0 +1,45 @@
+import { BaseError } from 'viem';
+import {
+  NotOnACLError,
+  NotPubliclyDecryptableError,
+  RelayerUnavailableError,
+  UserRejectedSignatureError,
+} from './fheEncryption';
+import { UnverifiedRevealError } from './publicMessage';
+import { UnverifiedProofError } from './publicProof';
+
+/**
+ * Extract a short, user-facing message from viem, ethers or plain errors
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof BaseError) {
+    return error.shortMessage;
+  }
+  if (error && typeof error === 'object') {
+    const { reason, shortMessage, message } = error as { reason?: string; shortMessage?: string; message?: string };
+    return reason || shortMessage || message || fallback;
+  }
+  return fallback;
+}
+
+/**
+ * Status line for the decryption errors users can act on, null for unexpected ones
+ */
+export function describeDecryptError(error: unknown, subject: string): string | null {
+  if (error instanceof NotOnACLError) {
+    return `🚫 Your address is not allowed to decrypt this ${subject}`;
+  }
+  if (error instanceof NotPubliclyDecryptableError) {
+    return `🔒 This ${subject} is not public`;
+  }
+  if (error instanceof UnverifiedRevealError || error instanceof UnverifiedProofError) {
+    return `⚠️ The decrypted ${subject} does not match its on-chain proof`;
+  }
+  if (error instanceof UserRejectedSignatureError) {
+    return 'ℹ️ Decryption cancelled: signature rejected';
+  }
+  if (error instanceof RelayerUnavailableError) {
+    return '⚠️ Zama relayer unavailable. Please try again later.';
+  }
+  return null;
+}
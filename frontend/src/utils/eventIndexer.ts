@@ -0,0 +1,245 @@
+import type { Address } from 'viem';
+import { openDatabase, promisifyRequest, withStore } from './idb';
+import { getActiveDeployment } from './activeDeployment';
+import {
+  getActivityLogs,
+  getBlockNumber,
+  getBlockTimestamps,
+  isDeployedAt,
+  type ActivityLog,
+} from './nftService';
+
+/**
+ * Local index of the contract's ownership, approval, sharing and message update events
+ *
+ * Logs are read in paged getLogs ranges up to the network's confirmation depth and
+ * stored in IndexedDB together with a per-deployment cursor, so a sync resumes where
+ * the previous one (or the previous visit) stopped. Records are scoped to a deployment
+ * since token ids repeat across contracts.
+ */
+
+const DB_NAME = 'event-index';
+const DB_VERSION = 1;
+const EVENTS_STORE = 'events';
+const CURSORS_STORE = 'cursors';
+
+// getLogs ranges grow while providers accept them and shrink when they refuse
+const INITIAL_RANGE = 5_000n;
+const MAX_RANGE = 100_000n;
+const MIN_RANGE = 100n;
+
+export type IndexedEvent = ActivityLog & {
+  /** Block timestamp in unix seconds */
+  timestamp: number;
+};
+
+interface EventRecord {
+  id: string;
+  deployment: string;
+  /** `${deployment}:${tokenId}`, missing for ApprovalForAll */
+  tokenKey?: string;
+  /** `${deployment}:${address}` of every address involved */
+  addressKeys: string[];
+  event: IndexedEvent;
+}
+
+interface CursorRecord {
+  deployment: string;
+  /** Last block fully indexed */
+  lastBlock: bigint;
+}
+
+export interface SyncProgress {
+  indexedBlock: bigint;
+  targetBlock: bigint;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+      const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+      events.createIndex('token', 'tokenKey');
+      events.createIndex('address', 'addressKeys', { multiEntry: true });
+      db.createObjectStore(CURSORS_STORE, { keyPath: 'deployment' });
+    });
+  }
+  return dbPromise;
+}
+
+function involvedAddresses(event: ActivityLog): Address[] {
+  switch (event.kind) {
+    case 'Transfer':
+      return [event.from, event.to];
+    case 'Approval':
+      return [event.owner, event.approved];
+    case 'ApprovalForAll':
+      return [event.owner, event.operator];
+    case 'ViewerGranted':
+      return [event.owner, event.viewer];
+    case 'MessageUpdated':
+    case 'MessageRevealed':
+      return [event.owner];
+  }
+}
+
+function toRecord(deployment: string, event: IndexedEvent): EventRecord {
+  const addresses = new Set(involvedAddresses(event).map(address => address.toLowerCase()));
+  return {
+    id: `${deployment}:${event.txHash}:${event.logIndex}`,
+    deployment,
+    tokenKey: event.kind === 'ApprovalForAll' ? undefined : `${deployment}:${event.tokenId}`,
+    addressKeys: [...addresses].map(address => `${deployment}:${address}`),
+    event,
+  };
+}
+
+function byChainOrder(a: IndexedEvent, b: IndexedEvent): number {
+  return a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : Number(a.blockNumber - b.blockNumber);
+}
+
+/**
+ * First block with contract code, found by binary search
+ * @returns 0 when the provider cannot serve historical state
+ */
+async function findDeploymentBlock(latest: bigint): Promise<bigint> {
+  try {
+    let low = 0n;
+    let high = latest;
+    while (low < high) {
+      const middle = (low + high) / 2n;
+      if (await isDeployedAt(middle)) {
+        high = middle;
+      } else {
+        low = middle + 1n;
+      }
+    }
+    return low;
+  } catch (error) {
+    console.warn('⚠️ Could not locate the deployment block, indexing from genesis:', error);
+    return 0n;
+  }
+}
+
+async function readCursor(deployment: string): Promise<CursorRecord | undefined> {
+  const db = await getDatabase();
+  return withStore(db, CURSORS_STORE, 'readonly', store =>
+    promisifyRequest(store.get(deployment) as IDBRequest<CursorRecord | undefined>)
+  );
+}
+
+async function writePage(deployment: string, events: IndexedEvent[], lastBlock: bigint): Promise<void> {
+  const db = await getDatabase();
+  // Event ids are deterministic, so re-indexing a page after an interrupted sync is harmless
+  await withStore(db, EVENTS_STORE, 'readwrite', async store => {
+    for (const event of events) {
+      await promisifyRequest(store.put(toRecord(deployment, event)));
+    }
+  });
+  await withStore(db, CURSORS_STORE, 'readwrite', store =>
+    promisifyRequest(store.put({ deployment, lastBlock } satisfies CursorRecord))
+  );
+}
+
+async function runSync(deployment: string, onProgress?: (progress: SyncProgress) => void): Promise<void> {
+  const { confirmations } = getActiveDeployment().network;
+  const latest = await getBlockNumber();
+  // Unconfirmed blocks could still be reorged away, they are indexed on a later sync
+  const targetBlock = latest - BigInt(confirmations);
+
+  const cursor = await readCursor(deployment);
+  let nextBlock = cursor ? cursor.lastBlock + 1n : await findDeploymentBlock(targetBlock);
+  let range = INITIAL_RANGE;
+
+  while (nextBlock <= targetBlock) {
+    const toBlock = nextBlock + range - 1n < targetBlock ? nextBlock + range - 1n : targetBlock;
+
+    let logs: ActivityLog[];
+    try {
+      logs = await getActivityLogs(nextBlock, toBlock);
+    } catch (error) {
+      if (range <= MIN_RANGE) {
+        throw error;
+      }
+      // Too many results or too wide a range for this provider
+      range /= 2n;
+      continue;
+    }
+
+    const timestamps = await getBlockTimestamps(logs.map(log => log.blockNumber));
+    const events = logs.map(log => ({ ...log, timestamp: timestamps.get(log.blockNumber) ?? 0 }));
+    await writePage(deployment, events, toBlock);
+
+    onProgress?.({ indexedBlock: toBlock, targetBlock });
+    nextBlock = toBlock + 1n;
+    if (range < MAX_RANGE) {
+      range *= 2n;
+    }
+  }
+}
+
+const syncs = new Map<string, Promise<void>>();
+
+/**
+ * Index new confirmed events of the active deployment
+ * Concurrent calls share one sync.
+ */
+export function syncEvents(onProgress?: (progress: SyncProgress) => void): Promise<void> {
+  const { key } = getActiveDeployment();
+  let sync = syncs.get(key);
+  if (!sync) {
+    sync = runSync(key, onProgress).finally(() => syncs.delete(key));
+    syncs.set(key, sync);
+  }
+  return sync;
+}
+
+async function queryIndex(indexName: 'token' | 'address', key: string): Promise<IndexedEvent[]> {
+  const db = await getDatabase();
+  const records = await withStore(db, EVENTS_STORE, 'readonly', store =>
+    promisifyRequest(store.index(indexName).getAll(key) as IDBRequest<EventRecord[]>)
+  );
+  return records.map(record => record.event).sort(byChainOrder);
+}
+
+/**
+ * Indexed events of an address (as sender, recipient, owner, approved, operator or viewer), oldest first
+ */
+export function getAddressEvents(address: Address): Promise<IndexedEvent[]> {
+  return queryIndex('address', `${getActiveDeployment().key}:${address.toLowerCase()}`);
+}
+
+/**
+ * Indexed history of a token, oldest first
+ * Includes ApprovalForAll events of its holders while they held it, since those
+ * operators could move the token too.
+ */
+export async function getTokenEvents(tokenId: bigint): Promise<IndexedEvent[]> {
+  const tokenEvents = await queryIndex('token', `${getActiveDeployment().key}:${tokenId}`);
+
+  // Holding periods as [from, until) in block order
+  const holdings: { holder: string; from: IndexedEvent; until: IndexedEvent | null }[] = [];
+  for (const event of tokenEvents) {
+    if (event.kind !== 'Transfer') continue;
+    const previous = holdings[holdings.length - 1];
+    if (previous) previous.until = event;
+    holdings.push({ holder: event.to.toLowerCase(), from: event, until: null });
+  }
+
+  const operatorEvents: IndexedEvent[] = [];
+  for (const holder of new Set(holdings.map(holding => holding.holder))) {
+    const events = await getAddressEvents(holder as Address);
+    for (const event of events) {
+      if (event.kind !== 'ApprovalForAll' || event.owner.toLowerCase() !== holder) continue;
+      const held = holdings.some(holding =>
+        holding.holder === holder &&
+        byChainOrder(holding.from, event) < 0 &&
+        (holding.until === null || byChainOrder(event, holding.until) < 0)
+      );
+      if (held) operatorEvents.push(event);
+    }
+  }
+
+  return [...tokenEvents, ...operatorEvents].sort(byChainOrder);
+}
@@ -1,103 +1,193 @@
-import { BrowserProvider } from 'ethers';
-import { createInstance, initSDK, type FhevmInstance, SepoliaConfig } from '@zama-fhe/relayer-sdk/web';
-import { CONTRACT_ADDRESS } from '../config/contracts';
+import { Contract, isError } from 'ethers';
+import { parseAbi, type Address, type Hex } from 'viem';
+import { encode, LEGACY_MAX_MESSAGE_CHUNKS, MAX_MESSAGE_CHUNKS } from './messageCodec';
+import { ensureActiveChain, getBrowserProvider, getSigner, WalletNotConnectedError } from './walletConnection';
+import { getReadClient } from './readClient';
+import { getActiveDeployment, getContractAddress, isLegacyDeployment } from './activeDeployment';
+import { callFheWorker } from './fheWorkerClient';
+import type { PublicDecryptResults } from '@zama-fhe/relayer-sdk/web';
+import type { EncryptInput, FheInitConfig } from '../workers/fheProtocol';
 
-let fhevmInstance: FhevmInstance | null = null;
+/**
+ * FHE operations for the active deployment
+ * The FHEVM instance lives in a Web Worker (see workers/fhe.worker.ts); this module
+ * builds its configuration, keeps wallet interaction on the main thread and maps errors.
+ */
+
+// In-flight or finished initialization, and the deployment it targets
+let initialization: Promise<void> | null = null;
+let instanceDeployment: string | null = null;
+let instanceReady = false;
+// Bumped by resetFHE so initializations started for a previous chain are not cached
+let instanceGeneration = 0;
+
+// How long a signed user-decrypt request stays valid
+const USER_DECRYPT_DURATION_DAYS = 1;
+
+const ACL_ABI = [
+  'function persistAllowed(bytes32 handle, address account) view returns (bool)',
+  'function isAllowedForDecryption(bytes32 handle) view returns (bool)',
+] as const;
 
 /**
- * Initialize the FHEVM instance
- * This must be called once before encrypting any data
+ * ACL contract of the active network (the mock contract keeps its own ACL)
  */
-export async function initializeFHE(): Promise<FhevmInstance> {
-  if (fhevmInstance) {
-    return fhevmInstance;
+function getAclAddress(): string {
+  const { network } = getActiveDeployment();
+  return network.fhe.mode === 'mock' ? getContractAddress() : network.fhe.instance.aclContractAddress;
+}
+
+/**
+ * Thrown when the connected account is not on the ACL for a ciphertext handle
+ */
+export class NotOnACLError extends Error {
+  constructor(handle: string, account: string) {
+    super(`Account ${account} is not allowed to decrypt handle ${handle}`);
+    this.name = 'NotOnACLError';
   }
+}
 
-  try {
-    if (!window.ethereum) {
-      throw new Error('MetaMask not found');
-    }
+/**
+ * Thrown when a handle was not marked publicly decryptable on the ACL
+ */
+export class NotPubliclyDecryptableError extends Error {
+  constructor(handle: string) {
+    super(`Handle ${handle} is not publicly decryptable`);
+    this.name = 'NotPubliclyDecryptableError';
+  }
+}
 
-    console.log('🔐 Initializing FHEVM SDK...');
+/**
+ * Thrown when the relayer / KMS cannot serve a user-decrypt request
+ */
+export class RelayerUnavailableError extends Error {
+  constructor(cause?: unknown) {
+    super('Zama relayer is unavailable. Please try again later.', { cause });
+    this.name = 'RelayerUnavailableError';
+  }
+}
 
-    // Initialize the SDK (WASM modules)
-    await initSDK();
+/**
+ * Thrown when the user rejects the EIP-712 decryption signature in their wallet
+ */
+export class UserRejectedSignatureError extends Error {
+  constructor() {
+    super('Decryption signature was rejected in the wallet');
+    this.name = 'UserRejectedSignatureError';
+  }
+}
+
+/**
+ * Worker configuration for the active deployment
+ */
+function getInitConfig(): FheInitConfig {
+  const { network } = getActiveDeployment();
+  if (network.fhe.mode === 'mock') {
+    return {
+      mode: 'mock',
+      aclContractAddress: getContractAddress(),
+      chainId: network.chain.id,
+      rpcUrl: network.rpcUrl,
+    };
+  }
+  return {
+    mode: 'relayer',
+    instance: { ...network.fhe.instance, chainId: network.chain.id, network: network.rpcUrl },
+  };
+}
 
-    // Get network info
-    const provider = new BrowserProvider(window.ethereum);
-    const network = await provider.getNetwork();
-    const chainId = Number(network.chainId);
+/**
+ * Initialize the FHEVM instance in the worker
+ * Concurrent and repeated calls for the same deployment share one initialization.
+ * @throws WrongNetworkError when a wallet is connected to another chain than the app's
+ */
+export function initializeFHE(): Promise<void> {
+  const { key, network } = getActiveDeployment();
+  if (initialization && instanceDeployment === key) {
+    return initialization;
+  }
 
-    console.log('Network:', network.name, 'Chain ID:', chainId);
+  const generation = instanceGeneration;
+  const run = async () => {
+    // The instance is bound to one chain, never build it for the wrong one. Without a wallet it
+    // is still built from the deployment's RPC URL, for public decryption
+    try {
+      await ensureActiveChain();
+    } catch (error) {
+      if (!(error instanceof WalletNotConnectedError)) {
+        throw error;
+      }
+    }
 
-    // Create FHEVM instance using Sepolia configuration
-    fhevmInstance = await createInstance({
-      ...SepoliaConfig,
-      chainId,
-    });
+    console.log(network.fhe.mode === 'mock'
+      ? '🧪 Using mock FHEVM instance (nothing is encrypted)'
+      : `🔐 Initializing FHEVM SDK for ${network.chain.name}...`);
+    await callFheWorker({ type: 'init', config: getInitConfig() });
 
+    if (generation === instanceGeneration) {
+      instanceReady = true;
+    }
     console.log('✅ FHEVM instance created successfully');
-    return fhevmInstance;
-  } catch (error) {
+  };
+
+  const promise = run().catch(error => {
     console.error('❌ Failed to initialize FHEVM:', error);
+    // Let the next call retry instead of replaying the failure
+    if (initialization === promise) {
+      initialization = null;
+      instanceDeployment = null;
+    }
     throw error;
-  }
+  });
+  initialization = promise;
+  instanceDeployment = key;
+  return promise;
 }
 
 /**
- * Encrypt a message using FHEVM
+ * Encrypt a message and a token's attributes in one encrypted input
+ * Long messages are split into several euint256 chunks; chunks come first, then the
+ * attributes in the given order, all covered by a single input proof.
  * @param message The plain text message to encrypt
- * @returns Object containing encrypted message and input proof
+ * @param attributes Typed attribute values, in schema order
+ * @returns Handles of the message chunks and attributes plus their shared input proof
  */
-export async function encryptMessage(message: string): Promise<{
-  encryptedMessage: `0x${string}`;
+export async function encryptToken(message: string, attributes: EncryptInput[]): Promise<{
+  encryptedChunks: `0x${string}`[];
+  encryptedAttributes: `0x${string}`[];
   inputProof: `0x${string}`;
 }> {
   try {
     console.log('🔒 Encrypting message:', message);
 
     // Ensure FHEVM is initialized
-    const instance = await initializeFHE();
+    await initializeFHE();
 
     // Get user address
-    const provider = new BrowserProvider(window.ethereum!);
-    const signer = await provider.getSigner();
+    const signer = await getSigner();
     const userAddress = await signer.getAddress();
 
-    // Convert message to BigInt (simple encoding)
-    const encoder = new TextEncoder();
-    const messageBytes = encoder.encode(message);
-    
-    // Convert first 32 bytes to BigInt
-    let messageNum = BigInt(0);
-    for (let i = 0; i < Math.min(messageBytes.length, 32); i++) {
-      messageNum = messageNum | (BigInt(messageBytes[i]) << BigInt(i * 8));
-    }
+    // Encode message into versioned euint256 chunks (throws if it does not fit)
+    const chunks = encode(message, isLegacyDeployment() ? LEGACY_MAX_MESSAGE_CHUNKS : MAX_MESSAGE_CHUNKS);
 
-    console.log('Message as number:', messageNum.toString());
+    console.log('Message encoded into', chunks.length, 'chunk(s),', attributes.length, 'attribute(s)');
 
-    // Create encrypted input
-    const encryptedInput = instance.createEncryptedInput(CONTRACT_ADDRESS, userAddress);
-    
-    // Add the uint256 value
-    encryptedInput.add256(messageNum);
-    
-    // Get the encrypted data
-    const encrypted = await encryptedInput.encrypt();
+    // One uint256 input per chunk followed by the typed attributes, all covered by a single proof
+    const encrypted = await callFheWorker({
+      type: 'encrypt',
+      contractAddress: getContractAddress(),
+      userAddress,
+      inputs: [...chunks.map(chunk => ({ type: 'uint256' as const, value: chunk })), ...attributes],
+    });
 
     console.log('✅ Message encrypted successfully');
     console.log('Encrypted handles:', encrypted.handles);
     console.log('Input proof:', encrypted.inputProof);
 
-    // Convert Uint8Array to hex string
-    const toHexString = (bytes: Uint8Array): `0x${string}` => {
-      return ('0x' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')) as `0x${string}`;
-    };
-
-    // Return the first handle (our euint256) and the proof
     return {
-      encryptedMessage: toHexString(encrypted.handles[0]),
-      inputProof: toHexString(encrypted.inputProof),
+      encryptedChunks: encrypted.handles.slice(0, chunks.length),
+      encryptedAttributes: encrypted.handles.slice(chunks.length),
+      inputProof: encrypted.inputProof,
     };
   } catch (error) {
     console.error('❌ Encryption failed:', error);
@@ -105,22 +195,221 @@ export async function encryptMessage(message: string): Promise<{
   }
 }
 
+/**
+ * Encrypt standalone values, e.g. the operand of a condition proof
+ * @param inputs Typed values, covered by a single input proof
+ * @returns One handle per input, in order, plus their input proof
+ */
+export async function encryptValues(inputs: EncryptInput[]): Promise<{
+  handles: `0x${string}`[];
+  inputProof: `0x${string}`;
+}> {
+  await initializeFHE();
+
+  const signer = await getSigner();
+  const userAddress = await signer.getAddress();
+
+  return callFheWorker({
+    type: 'encrypt',
+    contractAddress: getContractAddress(),
+    userAddress,
+    inputs,
+  });
+}
+
+/**
+ * Encrypt a message using FHEVM
+ * @param message The plain text message to encrypt
+ * @returns Object containing encrypted message chunks and input proof
+ */
+export async function encryptMessage(message: string): Promise<{
+  encryptedChunks: `0x${string}`[];
+  inputProof: `0x${string}`;
+}> {
+  const { encryptedChunks, inputProof } = await encryptToken(message, []);
+  return { encryptedChunks, inputProof };
+}
+
+/**
+ * Drop the FHEVM instance, e.g. after the wallet switched chains or accounts
+ */
+export function resetFHE(): void {
+  // Nothing to drop (and no reason to start the worker) before the first initialization
+  if (instanceDeployment !== null) {
+    void callFheWorker({ type: 'reset' });
+  }
+  initialization = null;
+  instanceDeployment = null;
+  instanceReady = false;
+  instanceGeneration++;
+}
+
 /**
  * Check if FHE is initialized
  */
 export function isFHEInitialized(): boolean {
-  return fhevmInstance !== null;
+  return instanceReady;
 }
 
 /**
- * Note: Full FHE decryption requires Zama KMS integration
- * This is a placeholder for future implementation
+ * Decrypt handles of any FHE type for the connected wallet using the relayer user-decrypt flow
+ * The wallet signs a single EIP-712 request authorizing a throwaway keypair, the relayer
+ * re-encrypts the ciphertexts under that key and the plaintexts are recovered locally.
+ * @param encryptedHandles The bytes32 handles returned by the contract
+ * @param contractAddress The contract the handles belong to
+ * @returns The decrypted values (bigint, boolean or address), in the same order as the handles
+ */
+export async function decryptHandles(
+  encryptedHandles: string[],
+  contractAddress: string
+): Promise<(bigint | boolean | string)[]> {
+  await initializeFHE();
+
+  const signer = await getSigner();
+  const userAddress = await signer.getAddress();
+
+  // Check the ACL first so the user is not asked to sign a request that will fail
+  const acl = new Contract(getAclAddress(), ACL_ABI, getBrowserProvider());
+  for (const handle of encryptedHandles) {
+    const allowed = await acl.persistAllowed(handle, userAddress) as boolean;
+    if (!allowed) {
+      throw new NotOnACLError(handle, userAddress);
+    }
+  }
+
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const contractAddresses = [contractAddress];
+
+  // The worker keeps the private half of the throwaway keypair
+  const { publicKey, eip712 } = await callFheWorker({
+    type: 'createUserDecryptRequest',
+    contractAddresses,
+    startTimestamp,
+    durationDays: USER_DECRYPT_DURATION_DAYS,
+  });
+
+  let signature: string;
+  try {
+    signature = await signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message
+    );
+  } catch (error) {
+    if (isError(error, 'ACTION_REJECTED')) {
+      throw new UserRejectedSignatureError();
+    }
+    throw error;
+  }
+
+  console.log('🔓 Requesting user decryption from relayer...');
+
+  let results: Record<string, bigint | boolean | string>;
+  try {
+    results = await callFheWorker({
+      type: 'userDecrypt',
+      handles: encryptedHandles.map(handle => ({ handle, contractAddress })),
+      publicKey,
+      signature: signature.replace('0x', ''),
+      contractAddresses,
+      userAddress,
+      startTimestamp,
+      durationDays: USER_DECRYPT_DURATION_DAYS,
+    });
+  } catch (error) {
+    console.error('❌ User decryption failed:', error);
+    throw new RelayerUnavailableError(error);
+  }
+
+  const values = encryptedHandles.map(handle => results[handle.toLowerCase()]);
+  if (values.some(value => value === undefined)) {
+    throw new RelayerUnavailableError(new Error('Relayer returned no value for a handle'));
+  }
+
+  console.log('✅ Decrypted', values.length, 'handle(s)');
+  return values;
+}
+
+/**
+ * Decrypt euint256 handles (message chunks) for the connected wallet
+ * @param encryptedHandles The bytes32 handles returned by the contract
+ * @param contractAddress The contract the handles belong to
+ * @returns The decrypted plaintext values, in the same order as the handles
+ */
+export async function decryptUint256Handles(
+  encryptedHandles: string[],
+  contractAddress: string
+): Promise<bigint[]> {
+  const values = await decryptHandles(encryptedHandles, contractAddress);
+  if (!values.every(value => typeof value === 'bigint')) {
+    throw new RelayerUnavailableError(new Error('Relayer returned a non-integer value for a message chunk'));
+  }
+  return values as bigint[];
+}
+
+/**
+ * Decrypt a single euint256 handle for the connected wallet
+ * @param encryptedHandle The bytes32 handle returned by the contract
+ * @param contractAddress The contract the handle belongs to
+ * @returns The decrypted plaintext value
  */
 export async function decryptUint256(
-  _encryptedHandle: string,
-  _contractAddress: string
-): Promise<string> {
-  // TODO: Implement full FHE decryption with Zama KMS
-  // For now, return a message indicating encryption is active
-  throw new Error('FHE decryption requires Zama KMS integration. Message is securely encrypted on-chain.');
+  encryptedHandle: string,
+  contractAddress: string
+): Promise<bigint> {
+  const [value] = await decryptUint256Handles([encryptedHandle], contractAddress);
+  return value;
+}
+
+/**
+ * Public decryption of handles, with what is needed to check it on-chain
+ */
+export interface PublicDecryption {
+  /** Decrypted values (bigint, boolean or address), in the same order as the handles */
+  values: (bigint | boolean | string)[];
+  /** The values ABI-encoded in handle order, as covered by the decryption proof */
+  abiEncodedClearValues: Hex;
+  /** KMS signatures over the handles and values, empty in mock mode */
+  decryptionProof: Hex;
+}
+
+/**
+ * Decrypt handles anyone may read (marked publicly decryptable on the ACL)
+ * Unlike user decryption, this needs neither a signature nor a connected wallet.
+ * @param encryptedHandles The bytes32 handles returned by the contract
+ */
+export async function publicDecrypt(encryptedHandles: string[]): Promise<PublicDecryption> {
+  await initializeFHE();
+
+  const client = getReadClient();
+  for (const handle of encryptedHandles) {
+    const allowed = await client.readContract({
+      address: getAclAddress() as Address,
+      abi: parseAbi(ACL_ABI),
+      functionName: 'isAllowedForDecryption',
+      args: [handle as Hex],
+    });
+    if (!allowed) {
+      throw new NotPubliclyDecryptableError(handle);
+    }
+  }
+
+  console.log('🔓 Requesting public decryption from relayer...');
+
+  let results: PublicDecryptResults;
+  try {
+    results = await callFheWorker({ type: 'publicDecrypt', handles: encryptedHandles });
+  } catch (error) {
+    console.error('❌ Public decryption failed:', error);
+    throw new RelayerUnavailableError(error);
+  }
+
+  const clearValues: Record<string, bigint | boolean | string> = results.clearValues;
+  const values = encryptedHandles.map(handle => clearValues[handle] ?? clearValues[handle.toLowerCase()]);
+  if (values.some(value => value === undefined)) {
+    throw new RelayerUnavailableError(new Error('Relayer returned no value for a handle'));
+  }
+
+  console.log('✅ Publicly decrypted', values.length, 'handle(s)');
+  return { values, abiEncodedClearValues: results.abiEncodedClearValues, decryptionProof: results.decryptionProof };
 }
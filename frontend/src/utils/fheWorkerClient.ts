@@ -0,0 +1,86 @@
+import type {
+  FheInitStage,
+  FheRequest,
+  FheRequestMessage,
+  FheResults,
+  FheWorkerMessage,
+} from '../workers/fheProtocol';
+
+/**
+ * Main-thread side of the FHE worker protocol
+ * The worker is created on first use and shared by every caller.
+ */
+
+export type FheProgressListener = (stage: FheInitStage, progress: number) => void;
+
+interface PendingCall {
+  resolve: (result: never) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingCall>();
+const progressListeners = new Set<FheProgressListener>();
+
+function handleMessage(event: MessageEvent<FheWorkerMessage>): void {
+  const message = event.data;
+  if (message.kind === 'progress') {
+    progressListeners.forEach(listener => listener(message.stage, message.progress));
+    return;
+  }
+
+  const call = pending.get(message.id);
+  if (!call) return;
+  pending.delete(message.id);
+
+  if (message.kind === 'result') {
+    call.resolve(message.result as never);
+  } else {
+    // Keep the worker-side error name so callers can still tell errors apart
+    const error = new Error(message.error.message);
+    error.name = message.error.name;
+    call.reject(error);
+  }
+}
+
+function handleCrash(event: ErrorEvent): void {
+  console.error('❌ FHE worker crashed:', event.message);
+  const error = new Error(`FHE worker crashed: ${event.message}`);
+  pending.forEach(call => call.reject(error));
+  pending.clear();
+  worker?.terminate();
+  worker = null;
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/fhe.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleCrash);
+  }
+  return worker;
+}
+
+/**
+ * Send a request to the FHE worker
+ * @returns The worker's result for that request type
+ */
+export function callFheWorker<T extends FheRequest>(request: T): Promise<FheResults[T['type']]> {
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve: resolve as (result: never) => void, reject });
+    getWorker().postMessage({ ...request, id } satisfies FheRequestMessage);
+  });
+}
+
+/**
+ * Listen to initialization progress reported by the worker
+ * @returns A function that removes the listener
+ */
+export function onFheProgress(listener: FheProgressListener): () => void {
+  progressListeners.add(listener);
+  return () => {
+    progressListeners.delete(listener);
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Minimal promise wrappers around IndexedDB
+ */
+
+/**
+ * Open (and upgrade if needed) an IndexedDB database
+ * @param name Database name
+ * @param version Schema version
+ * @param upgrade Called inside versionchange to create object stores or migrate records
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error(`Failed to open IndexedDB ${name}`));
+  });
+}
+
+/**
+ * Resolve an IDBRequest as a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Run a callback inside a transaction and resolve once it commits
+ */
+export function withStore<T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    let result: T;
+    Promise.resolve(callback(transaction.objectStore(storeName)))
+      .then(value => { result = value; })
+      .catch(error => {
+        try {
+          transaction.abort();
+        } catch {
+          // Transaction already finished
+        }
+        reject(error);
+      });
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * Client-side image processing run before upload
+ * Resizes, re-encodes to a byte budget and drops EXIF/GPS metadata
+ * (canvas re-encoding never carries the original metadata over).
+ */
+
+export type OutputFormat = 'image/webp' | 'image/jpeg';
+
+export interface ImageProcessingOptions {
+  maxWidth: number;
+  maxHeight: number;
+  format: OutputFormat;
+  targetBytes: number;
+}
+
+export interface ProcessedImage {
+  file: File;
+  originalSize: number;
+  processedSize: number;
+  width: number;
+  height: number;
+  format: string;
+  /** false when the input was passed through untouched (animated GIF, SVG) */
+  processed: boolean;
+}
+
+const MIN_QUALITY = 0.4;
+const MAX_QUALITY = 0.92;
+const QUALITY_STEPS = 6;
+const DOWNSCALE_FACTOR = 0.8;
+const MIN_DIMENSION = 64;
+
+// Rough SSTORE cost of a fresh 32-byte word plus calldata cost per byte
+const GAS_PER_STORAGE_WORD = 22_100;
+const GAS_PER_CALLDATA_BYTE = 16;
+
+// Per-transaction gas cap (EIP-7825, 2^24), below the block gas limit on Sepolia and mainnet
+const MAX_TRANSACTION_GAS = 16_777_216;
+// Rough cost of a mint without its image: encrypted input verification, chunks, attributes, ERC-721 state
+const MINT_BASE_GAS = 6_000_000;
+
+/** Gas a base64 image may use in a mint without pushing it over the per-transaction cap */
+export const ON_CHAIN_IMAGE_GAS_BUDGET = MAX_TRANSACTION_GAS - MINT_BASE_GAS;
+
+// Formats re-encoding would break (animation) or cannot rasterize reliably
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+export const DEFAULT_PROCESSING_OPTIONS: ImageProcessingOptions = {
+  maxWidth: Number(import.meta.env.VITE_IMAGE_MAX_DIMENSION) || 1600,
+  maxHeight: Number(import.meta.env.VITE_IMAGE_MAX_DIMENSION) || 1600,
+  format: import.meta.env.VITE_IMAGE_FORMAT || 'image/webp',
+  targetBytes: 1024 * 1024,
+};
+
+const ON_CHAIN_FORMAT: OutputFormat = import.meta.env.VITE_IMAGE_FORMAT || 'image/webp';
+
+// Keeps base64 mints under the per-transaction gas cap (about 11KB of WebP)
+export const ON_CHAIN_PROCESSING_OPTIONS: ImageProcessingOptions = {
+  maxWidth: 512,
+  maxHeight: 512,
+  format: ON_CHAIN_FORMAT,
+  targetBytes: Number(import.meta.env.VITE_IMAGE_ONCHAIN_TARGET_BYTES) || maxOnChainImageBytes(ON_CHAIN_FORMAT),
+};
+
+function encodeCanvas(canvas: HTMLCanvasElement, format: OutputFormat, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      format,
+      quality
+    );
+  });
+}
+
+function fitWithin(width: number, height: number, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+/**
+ * Encode at the highest quality that fits the byte budget (binary search)
+ * @returns The smallest blob found when even MIN_QUALITY does not fit
+ */
+async function encodeWithinBudget(canvas: HTMLCanvasElement, format: OutputFormat, targetBytes: number): Promise<Blob> {
+  let low = MIN_QUALITY;
+  let high = MAX_QUALITY;
+  let best: Blob | null = null;
+  let smallest = await encodeCanvas(canvas, format, MIN_QUALITY);
+
+  if (smallest.size > targetBytes) {
+    return smallest;
+  }
+
+  for (let step = 0; step < QUALITY_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const blob = await encodeCanvas(canvas, format, quality);
+    if (blob.size <= targetBytes) {
+      best = blob;
+      low = quality;
+    } else {
+      high = quality;
+    }
+    if (blob.size < smallest.size) {
+      smallest = blob;
+    }
+  }
+
+  return best ?? smallest;
+}
+
+function renameFile(name: string, format: string): string {
+  const extension = format === 'image/webp' ? 'webp' : 'jpg';
+  return `${name.replace(/\.[^.]+$/, '') || 'image'}.${extension}`;
+}
+
+/**
+ * Resize and re-encode an image to fit the given options
+ */
+export async function processImage(file: File, options: ImageProcessingOptions = DEFAULT_PROCESSING_OPTIONS): Promise<ProcessedImage> {
+  if (PASSTHROUGH_TYPES.includes(file.type)) {
+    return {
+      file,
+      originalSize: file.size,
+      processedSize: file.size,
+      width: 0,
+      height: 0,
+      format: file.type,
+      processed: false,
+    };
+  }
+
+  // from-image applies EXIF orientation before the metadata is dropped
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    let { width, height } = fitWithin(bitmap.width, bitmap.height, options.maxWidth, options.maxHeight);
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+
+    let blob: Blob;
+    for (;;) {
+      canvas.width = width;
+      canvas.height = height;
+      if (options.format === 'image/jpeg') {
+        // JPEG has no alpha channel, flatten transparency onto white
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, width, height);
+      }
+      context.drawImage(bitmap, 0, 0, width, height);
+
+      blob = await encodeWithinBudget(canvas, options.format, options.targetBytes);
+      if (blob.size <= options.targetBytes || Math.max(width, height) <= MIN_DIMENSION) {
+        break;
+      }
+
+      width = Math.round(width * DOWNSCALE_FACTOR);
+      height = Math.round(height * DOWNSCALE_FACTOR);
+    }
+
+    // Browsers without WebP encoding silently fall back to PNG
+    const format = blob.type || options.format;
+    const processedFile = new File([blob], renameFile(file.name, format), { type: format });
+
+    return {
+      file: processedFile,
+      originalSize: file.size,
+      processedSize: processedFile.size,
+      width,
+      height,
+      format,
+      processed: true,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Length of the base64 data URI a file turns into
+ */
+export function dataUriLength(fileSize: number, mimeType: string): number {
+  return `data:${mimeType};base64,`.length + Math.ceil(fileSize / 3) * 4;
+}
+
+/**
+ * Rough gas needed to store a data URI of the given length in contract storage
+ */
+export function estimateDataUriGas(uriLength: number): number {
+  return Math.ceil(uriLength / 32) * GAS_PER_STORAGE_WORD + uriLength * GAS_PER_CALLDATA_BYTE;
+}
+
+/**
+ * Largest file whose data URI fits the on-chain image gas budget, the inverse of estimateDataUriGas
+ */
+export function maxOnChainImageBytes(mimeType: string, gasBudget: number = ON_CHAIN_IMAGE_GAS_BUDGET): number {
+  const gasPerWord = GAS_PER_STORAGE_WORD + 32 * GAS_PER_CALLDATA_BYTE;
+  const uriLength = Math.floor(gasBudget / gasPerWord) * 32;
+  const base64Length = uriLength - `data:${mimeType};base64,`.length;
+  return Math.max(0, Math.floor(base64Length / 4) * 3);
+}
+
+/**
+ * Human readable byte size
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
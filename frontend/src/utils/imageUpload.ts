@@ -1,74 +1,27 @@
-import axios from 'axios';
+import { getStorageProvider, DataUriStorageProvider, type StorageProvider } from './storageProviders';
 
 export interface UploadResult {
   imageUri: string;
   previewUrl: string;
+  provider: string;
 }
 
-/**
- * Upload image to Pinata IPFS service
- * Requires VITE_PINATA_API_KEY and VITE_PINATA_API_SECRET environment variables
- */
-async function uploadToPinata(file: File): Promise<UploadResult> {
-  const apiKey = import.meta.env.VITE_PINATA_API_KEY;
-  const apiSecret = import.meta.env.VITE_PINATA_API_SECRET;
-
-  if (!apiKey || !apiSecret) {
-    throw new Error('Pinata API credentials not configured');
-  }
-
-  const formData = new FormData();
-  formData.append('file', file);
-
-  const metadata = JSON.stringify({
-    name: file.name,
-  });
-  formData.append('pinataMetadata', metadata);
-
-  const response = await axios.post('https://api.pinata.cloud/pinning/pinFileToIPFS', formData, {
-    headers: {
-      'Content-Type': 'multipart/form-data',
-      pinata_api_key: apiKey,
-      pinata_secret_api_key: apiSecret,
-    },
-  });
-
-  const ipfsHash = response.data.IpfsHash;
-  const imageUri = `ipfs://${ipfsHash}`;
-  
-  // Use custom gateway if configured, otherwise use Pinata's public gateway
-  const gateway = import.meta.env.VITE_PINATA_GATEWAY || 'https://gateway.pinata.cloud';
-  const previewUrl = `${gateway}/ipfs/${ipfsHash}`;
-  
-  console.log('✅ Uploaded to IPFS:', ipfsHash);
-  console.log('📷 Preview URL:', previewUrl);
-
-  return { imageUri, previewUrl };
+export interface MetadataUploadResult {
+  metadataUri: string;
+  provider: string;
 }
 
 /**
- * Convert image to base64 data URI
- * This is a fallback when IPFS is not available
+ * Whether uploads will be stored on-chain as base64 data URIs
  */
-async function uploadAsBase64(file: File): Promise<UploadResult> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64String = reader.result as string;
-      resolve({
-        imageUri: base64String,
-        previewUrl: base64String,
-      });
-    };
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.readAsDataURL(file);
-  });
+export function isOnChainStorage(): boolean {
+  return getStorageProvider() instanceof DataUriStorageProvider;
 }
 
 /**
  * Upload image file and return URI
- * Attempts Pinata IPFS first, falls back to base64 if credentials not configured
- * WARNING: Base64 on-chain storage is expensive! Use small images or configure Pinata.
+ * Uses the configured storage provider, falls back to base64 if it fails
+ * WARNING: Base64 on-chain storage is expensive! Use small images or configure Pinata/IPFS.
  */
 export async function uploadImage(file: File): Promise<UploadResult> {
   // Validate file
@@ -76,56 +29,73 @@ export async function uploadImage(file: File): Promise<UploadResult> {
     throw new Error('File must be an image');
   }
 
-  const maxSize = 10 * 1024 * 1024; // 10MB for IPFS
-  if (file.size > maxSize) {
-    throw new Error('Image must be less than 10MB');
-  }
+  const provider = getStorageProvider();
+  const dataUriProvider = provider instanceof DataUriStorageProvider ? provider : new DataUriStorageProvider();
 
-  // Try Pinata first, fall back to base64
-  try {
-    const apiKey = import.meta.env.VITE_PINATA_API_KEY;
-    console.log('Pinata API Key configured:', apiKey ? 'YES ✅' : 'NO ❌');
-    
-    if (apiKey) {
-      console.log('📤 Attempting IPFS upload via Pinata...');
-      const result = await uploadToPinata(file);
-      console.log('✅ IPFS upload successful:', result.imageUri);
-      return result;
-    } else {
-      console.warn('⚠️ Pinata not configured, will use base64 fallback');
+  if (provider !== dataUriProvider) {
+    try {
+      return await uploadWith(provider, file);
+    } catch (error) {
+      console.error(`❌ ${provider.name} upload failed:`, error);
+      console.warn('Falling back to base64 encoding');
     }
-  } catch (error) {
-    console.error('❌ Pinata upload failed:', error);
-    console.warn('Falling back to base64 encoding');
+  } else {
+    console.warn('⚠️ No IPFS storage configured, using base64 on-chain storage');
   }
 
-  // For base64 fallback, enforce much stricter size limit (100KB)
-  // Base64 on-chain storage is VERY expensive!
-  const maxBase64Size = 100 * 1024; // 100KB
-  if (file.size > maxBase64Size) {
+  if (file.size > dataUriProvider.maxFileSize) {
     throw new Error(
       `Image too large for on-chain storage (${Math.round(file.size / 1024)}KB). ` +
-      `Please use an image under 100KB, or configure Pinata IPFS in .env file. ` +
+      `Please use an image under ${Math.round(dataUriProvider.maxFileSize / 1024)}KB, or configure Pinata/IPFS in .env file. ` +
       `See .env.example for setup instructions.`
     );
   }
 
   console.warn(`⚠️ Using base64 on-chain storage for ${Math.round(file.size / 1024)}KB image. This is expensive! Configure Pinata for better performance.`);
-  
-  // Fallback to base64
-  return await uploadAsBase64(file);
+
+  return await uploadWith(dataUriProvider, file);
+}
+
+async function uploadWith(provider: StorageProvider, file: File): Promise<UploadResult> {
+  if (file.size > provider.maxFileSize) {
+    throw new Error(`File must be less than ${Math.round(provider.maxFileSize / 1024 / 1024)}MB`);
+  }
+
+  console.log(`📤 Uploading ${file.name} via ${provider.name}...`);
+  const { uri, previewUrl } = await provider.upload(file);
+  console.log('✅ Upload successful:', uri.startsWith('data:') ? `${uri.slice(0, 32)}...` : uri);
+
+  return { imageUri: uri, previewUrl, provider: provider.name };
+}
+
+/**
+ * Upload an ERC-721 metadata JSON document and return its URI
+ * Only pinned to IPFS storage; with the base64 fallback the image would end up
+ * on-chain twice, so null is returned and tokenURI keeps using the base URI.
+ * A failed upload also returns null rather than blocking the mint.
+ */
+export async function uploadMetadata(metadata: object): Promise<MetadataUploadResult | null> {
+  const provider = getStorageProvider();
+  if (provider instanceof DataUriStorageProvider) {
+    console.warn('⚠️ No IPFS storage configured, skipping metadata upload');
+    return null;
+  }
+
+  const file = new File([JSON.stringify(metadata, null, 2)], 'metadata.json', { type: 'application/json' });
+  try {
+    const { imageUri, provider: providerName } = await uploadWith(provider, file);
+    return { metadataUri: imageUri, provider: providerName };
+  } catch (error) {
+    console.error(`❌ ${provider.name} metadata upload failed:`, error);
+    console.warn('Minting without a metadata URI, tokenURI falls back to the base URI');
+    return null;
+  }
 }
 
 /**
  * Convert IPFS URI to HTTP gateway URL for display
- * Supports multiple gateways for better reliability
+ * Delegates to the configured storage provider's gateway
  */
 export function getImageUrl(uri: string): string {
-  if (uri.startsWith('ipfs://')) {
-    const hash = uri.replace('ipfs://', '');
-    // Use custom gateway if configured, otherwise use Pinata's public gateway
-    const gateway = import.meta.env.VITE_PINATA_GATEWAY || 'https://gateway.pinata.cloud';
-    return `${gateway}/ipfs/${hash}`;
-  }
-  return uri;
+  return getStorageProvider().resolve(uri);
 }
@@ -0,0 +1,248 @@
+import { parseCID, digestMatches, decodeUnixFSBlock, CODEC_RAW, CODEC_DAG_PB, HASH_SHA2_256, type ParsedCID } from './cid';
+import { getActiveDeployment } from './activeDeployment';
+
+/**
+ * Resolve ipfs:// URIs through an ordered list of HTTP gateways
+ * Gateways are raced (or tried in order), responses can be verified against
+ * the CID, and successful fetches are cached as object URLs.
+ */
+
+export interface IpfsGateway {
+  url: string;
+  style: 'path' | 'subdomain';
+}
+
+export type GatewayStrategy = 'race' | 'fallback';
+
+export interface GatewayFetchOptions {
+  strategy?: GatewayStrategy;
+  verify?: boolean;
+  timeoutMs?: number;
+  gateways?: IpfsGateway[];
+}
+
+export interface GatewayFetchResult {
+  objectUrl: string;
+  gateway: string;
+  /** true when checked against the CID, null when verification was skipped or unsupported */
+  verified: boolean | null;
+}
+
+/**
+ * Thrown when a gateway returns bytes that do not hash to the requested CID
+ */
+export class CIDMismatchError extends Error {
+  constructor(cid: string, gateway: string) {
+    super(`Gateway ${gateway} returned content that does not match ${cid}`);
+    this.name = 'CIDMismatchError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+
+const cache = new Map<string, GatewayFetchResult>();
+
+/**
+ * Parse one VITE_IPFS_GATEWAYS entry, e.g. "https://ipfs.io" or "subdomain:https://dweb.link"
+ */
+function parseGateway(entry: string): IpfsGateway {
+  const trimmed = entry.trim().replace(/\/$/, '');
+  if (trimmed.startsWith('subdomain:')) {
+    return { url: trimmed.slice('subdomain:'.length), style: 'subdomain' };
+  }
+  return { url: trimmed.replace(/^path:/, ''), style: 'path' };
+}
+
+/**
+ * Ordered gateway list from configuration
+ * VITE_IPFS_GATEWAYS overrides the defaults: the active network's gateway, configured
+ * Kubo/Pinata gateways, then public ones.
+ */
+export function getGateways(): IpfsGateway[] {
+  const env = import.meta.env;
+  if (env.VITE_IPFS_GATEWAYS) {
+    return env.VITE_IPFS_GATEWAYS.split(',').filter(Boolean).map(parseGateway);
+  }
+
+  const entries = [
+    getActiveDeployment().network.ipfsGateway,
+    env.VITE_KUBO_GATEWAY,
+    env.VITE_PINATA_GATEWAY || 'https://gateway.pinata.cloud',
+    'https://ipfs.io',
+    'subdomain:https://dweb.link',
+  ].filter((entry): entry is string => Boolean(entry));
+  return [...new Set(entries)].map(parseGateway);
+}
+
+/**
+ * Split an ipfs:// URI into CID and optional sub-path
+ */
+export function parseIpfsUri(uri: string): { cid: string; path: string } | null {
+  if (!uri.startsWith('ipfs://')) {
+    return null;
+  }
+  const [cid, ...rest] = uri.slice('ipfs://'.length).replace(/^ipfs\//, '').split('/');
+  return { cid, path: rest.length > 0 ? `/${rest.join('/')}` : '' };
+}
+
+/**
+ * Build the HTTP URL of a CID on a gateway
+ */
+export function buildGatewayUrl(gateway: IpfsGateway, cid: string, path = ''): string {
+  if (gateway.style === 'subdomain') {
+    const { protocol, host } = new URL(gateway.url);
+    return `${protocol}//${cid}.ipfs.${host}${path}`;
+  }
+  return `${gateway.url}/ipfs/${cid}${path}`;
+}
+
+/**
+ * Parse a CID the browser can verify: a raw or dag-pb block hashed with sha2-256
+ * @returns null for other codecs and hash functions (e.g. blake3), served unverified
+ */
+function checkableCID(cid: string): ParsedCID | null {
+  const parsed = tryParseCID(cid);
+  if (!parsed || parsed.hashCode !== HASH_SHA2_256) {
+    return null;
+  }
+  return parsed.codec === CODEC_RAW || parsed.codec === CODEC_DAG_PB ? parsed : null;
+}
+
+async function fetchFromGateway(
+  gateway: IpfsGateway,
+  cid: string,
+  path: string,
+  verify: boolean,
+  signal: AbortSignal
+): Promise<{ blob: Blob; verified: boolean | null }> {
+  const parsedCid = verify && !path ? checkableCID(cid) : null;
+  const rawBlock = parsedCid?.codec === CODEC_DAG_PB;
+
+  const url = buildGatewayUrl(gateway, cid, path) + (rawBlock ? '?format=raw' : '');
+  const response = await fetch(url, {
+    signal,
+    headers: rawBlock ? { Accept: 'application/vnd.ipld.raw' } : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`Gateway ${gateway.url} responded ${response.status}`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const contentType = response.headers.get('content-type') ?? undefined;
+
+  if (!parsedCid) {
+    return { blob: new Blob([bytes], { type: contentType }), verified: null };
+  }
+
+  if (!(await digestMatches(parsedCid, bytes))) {
+    throw new CIDMismatchError(cid, gateway.url);
+  }
+
+  if (!rawBlock) {
+    return { blob: new Blob([bytes], { type: contentType }), verified: true };
+  }
+
+  const fileBytes = decodeUnixFSBlock(bytes);
+  if (!fileBytes) {
+    // Multi-block file: the root block checks out but the content needs a full DAG walk
+    const fallback = await fetch(buildGatewayUrl(gateway, cid), { signal });
+    if (!fallback.ok) {
+      throw new Error(`Gateway ${gateway.url} responded ${fallback.status}`);
+    }
+    return { blob: await fallback.blob(), verified: null };
+  }
+  return { blob: new Blob([new Uint8Array(fileBytes)]), verified: true };
+}
+
+function tryParseCID(cid: string) {
+  try {
+    return parseCID(cid);
+  } catch (error) {
+    console.warn('⚠️ Cannot verify CID, fetching unverified:', error);
+    return null;
+  }
+}
+
+function withTimeout(parent: AbortSignal, timeoutMs: number): AbortSignal {
+  return AbortSignal.any([parent, AbortSignal.timeout(timeoutMs)]);
+}
+
+/**
+ * Fetch an ipfs:// URI through the configured gateways
+ * @returns An object URL for the content plus the gateway that served it
+ */
+export async function fetchIpfs(uri: string, options: GatewayFetchOptions = {}): Promise<GatewayFetchResult> {
+  const cached = cache.get(uri);
+  if (cached) {
+    return cached;
+  }
+
+  const parsed = parseIpfsUri(uri);
+  if (!parsed) {
+    throw new Error(`Not an ipfs:// URI: ${uri}`);
+  }
+
+  const env = import.meta.env;
+  const gateways = options.gateways ?? getGateways();
+  const strategy = options.strategy ?? env.VITE_IPFS_GATEWAY_STRATEGY ?? 'race';
+  const verify = options.verify ?? env.VITE_IPFS_VERIFY_CID === 'true';
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  if (gateways.length === 0) {
+    throw new Error('No IPFS gateways configured');
+  }
+
+  const controller = new AbortController();
+  const attempt = async (gateway: IpfsGateway): Promise<GatewayFetchResult> => {
+    const { blob, verified } = await fetchFromGateway(
+      gateway,
+      parsed.cid,
+      parsed.path,
+      verify,
+      withTimeout(controller.signal, timeoutMs)
+    );
+    return { objectUrl: URL.createObjectURL(blob), gateway: new URL(gateway.url).host, verified };
+  };
+
+  let result: GatewayFetchResult;
+  if (strategy === 'race') {
+    try {
+      result = await Promise.any(gateways.map(attempt));
+    } catch (error) {
+      throw new Error(`All IPFS gateways failed for ${uri}`, { cause: error });
+    } finally {
+      // Cancel slower gateways once one has answered
+      controller.abort();
+    }
+  } else {
+    const errors: unknown[] = [];
+    let found: GatewayFetchResult | null = null;
+    for (const gateway of gateways) {
+      try {
+        found = await attempt(gateway);
+        break;
+      } catch (error) {
+        console.warn(`⚠️ Gateway ${gateway.url} failed:`, error);
+        errors.push(error);
+      }
+    }
+    if (!found) {
+      throw new Error(`All IPFS gateways failed for ${uri}`, { cause: new AggregateError(errors) });
+    }
+    result = found;
+  }
+
+  cache.set(uri, result);
+  return result;
+}
+
+/**
+ * Drop a cached object URL, e.g. before retrying
+ */
+export function evictIpfsCache(uri: string): void {
+  const cached = cache.get(uri);
+  if (cached) {
+    URL.revokeObjectURL(cached.objectUrl);
+    cache.delete(uri);
+  }
+}
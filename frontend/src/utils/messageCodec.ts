@@ -0,0 +1,152 @@
+/**
+ * Versioned codec turning message text into euint256-sized chunks and back
+ *
+ * Layout (big-endian, split into 32-byte chunks, zero padded):
+ *   [version: 1 byte][payload length: 2 bytes][UTF-8 payload]
+ */
+
+export const MESSAGE_CODEC_VERSION = 1;
+
+// Bytes held by a single euint256
+export const CHUNK_BYTES = 32;
+
+// Version byte + uint16 payload length
+export const HEADER_BYTES = 3;
+
+// Number of euint256 chunks the contract accepts per token (HiddenAttributeNFT.MAX_MESSAGE_CHUNKS)
+export const MAX_MESSAGE_CHUNKS = 4;
+
+// The original contract of legacy deployments stores a single euint256
+export const LEGACY_MAX_MESSAGE_CHUNKS = 1;
+
+/**
+ * UTF-8 bytes available for message text in the given number of chunks
+ */
+export function maxMessageBytes(maxChunks: number = MAX_MESSAGE_CHUNKS): number {
+  return maxChunks * CHUNK_BYTES - HEADER_BYTES;
+}
+
+// UTF-8 bytes available for message text
+export const MAX_MESSAGE_BYTES = maxMessageBytes();
+
+/**
+ * Thrown when a message does not fit in the available chunks
+ */
+export class MessageTooLongError extends Error {
+  constructor(byteLength: number, maxBytes: number) {
+    super(`Message is ${byteLength} bytes, but only ${maxBytes} bytes fit on-chain`);
+    this.name = 'MessageTooLongError';
+  }
+}
+
+/**
+ * Thrown when decrypted chunks are not a valid encoded message
+ */
+export class MessageCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MessageCodecError';
+  }
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Number of UTF-8 bytes a string takes once encoded
+ */
+export function byteLength(text: string): number {
+  return encoder.encode(text).length;
+}
+
+/**
+ * Truncate text to at most maxBytes UTF-8 bytes without splitting a character
+ */
+export function truncateToBytes(text: string, maxBytes: number): string {
+  let used = 0;
+  let result = '';
+  for (const char of text) {
+    const size = byteLength(char);
+    if (used + size > maxBytes) break;
+    used += size;
+    result += char;
+  }
+  return result;
+}
+
+/**
+ * Encode text into euint256-sized chunks
+ * @param text The message to encode
+ * @param maxChunks Number of chunks available
+ * @returns Chunk values ready for add256
+ */
+export function encode(text: string, maxChunks: number = MAX_MESSAGE_CHUNKS): bigint[] {
+  const payload = encoder.encode(text);
+  const maxBytes = maxMessageBytes(maxChunks);
+  if (payload.length > maxBytes) {
+    throw new MessageTooLongError(payload.length, maxBytes);
+  }
+
+  const chunkCount = Math.ceil((HEADER_BYTES + payload.length) / CHUNK_BYTES);
+  const bytes = new Uint8Array(chunkCount * CHUNK_BYTES);
+  bytes[0] = MESSAGE_CODEC_VERSION;
+  bytes[1] = payload.length >> 8;
+  bytes[2] = payload.length & 0xff;
+  bytes.set(payload, HEADER_BYTES);
+
+  const chunks: bigint[] = [];
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_BYTES) {
+    let value = 0n;
+    for (let i = offset; i < offset + CHUNK_BYTES; i++) {
+      value = (value << 8n) | BigInt(bytes[i]);
+    }
+    chunks.push(value);
+  }
+  return chunks;
+}
+
+/**
+ * Decode chunks produced by encode back into text
+ * Single chunks without a header are treated as the legacy packing used before
+ * this codec existed (raw UTF-8 bytes, little-endian, max 32 bytes).
+ */
+export function decode(chunks: bigint[]): string {
+  if (chunks.length === 0) {
+    throw new MessageCodecError('No message chunks to decode');
+  }
+
+  const bytes = new Uint8Array(chunks.length * CHUNK_BYTES);
+  chunks.forEach((chunk, index) => {
+    let value = chunk;
+    for (let i = CHUNK_BYTES - 1; i >= 0; i--) {
+      bytes[index * CHUNK_BYTES + i] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+  });
+
+  if (bytes[0] !== MESSAGE_CODEC_VERSION) {
+    if (chunks.length === 1) {
+      return decodeLegacy(chunks[0]);
+    }
+    throw new MessageCodecError(`Unsupported message codec version ${bytes[0]}`);
+  }
+
+  const length = (bytes[1] << 8) | bytes[2];
+  if (HEADER_BYTES + length > bytes.length) {
+    throw new MessageCodecError(`Message header claims ${length} bytes, but only ${bytes.length - HEADER_BYTES} are present`);
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(HEADER_BYTES, HEADER_BYTES + length));
+  } catch {
+    throw new MessageCodecError('Message payload is not valid UTF-8');
+  }
+}
+
+function decodeLegacy(value: bigint): string {
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.push(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
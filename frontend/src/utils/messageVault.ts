@@ -0,0 +1,320 @@
+import { getBytes } from 'ethers';
+import { openDatabase, promisifyRequest, withStore } from './idb';
+import { getSigner } from './walletConnection';
+import { getActiveDeployment } from './activeDeployment';
+
+/**
+ * Encrypted local cache of minted message plaintexts
+ *
+ * Entries are encrypted with an AES-GCM key derived (HKDF) from a deterministic
+ * wallet signature, stored in IndexedDB and only readable once the vault has
+ * been unlocked for the current session. Records are scoped to a deployment
+ * since token ids repeat across contracts.
+ */
+
+const DB_NAME = 'private-nft-vault';
+const DB_VERSION = 2;
+const STORE_NAME = 'messages';
+
+const BACKUP_VERSION = 2;
+
+// Deployment of records written before the vault was scoped (version 1 databases and backups)
+const LEGACY_DEPLOYMENT = '11155111:prod';
+
+// Key prefix used before the vault existed (plaintext localStorage cache)
+const LEGACY_STORAGE_PREFIX = 'nft_message_';
+
+interface VaultRecord {
+  id: string;
+  address: string;
+  deployment: string;
+  tokenId: number;
+  iv: string;
+  ciphertext: string;
+}
+
+interface VaultBackup {
+  version: number;
+  address: string;
+  // deployment is missing in version 1 backups
+  entries: Array<Pick<VaultRecord, 'tokenId' | 'iv' | 'ciphertext'> & { deployment?: string }>;
+}
+
+/**
+ * Thrown when reading or writing the vault before it has been unlocked
+ */
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Message vault is locked. Unlock it with your wallet first.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+/**
+ * Thrown when a backup file is malformed or belongs to another wallet
+ */
+export class VaultBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultBackupError';
+  }
+}
+
+// Session keys, never persisted
+const sessionKeys = new Map<string, CryptoKey>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, transaction) => {
+      if (oldVersion < 1) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('address', 'address');
+        return;
+      }
+      if (oldVersion < 2) {
+        // Re-key unscoped records under the deployment they were written for
+        const store = transaction.objectStore(STORE_NAME);
+        const request = store.getAll() as IDBRequest<Omit<VaultRecord, 'deployment'>[]>;
+        request.onsuccess = () => {
+          store.clear();
+          for (const record of request.result) {
+            store.put({
+              ...record,
+              id: recordId(record.address, LEGACY_DEPLOYMENT, record.tokenId),
+              deployment: LEGACY_DEPLOYMENT,
+            } satisfies VaultRecord);
+          }
+        };
+      }
+    });
+  }
+  return dbPromise;
+}
+
+function normalize(address: string): string {
+  return address.toLowerCase();
+}
+
+function recordId(address: string, deployment: string, tokenId: number): string {
+  return `${deployment}:${normalize(address)}:${tokenId}`;
+}
+
+function vaultSigningMessage(address: string): string {
+  return [
+    'Unlock your Private NFT message vault.',
+    '',
+    'This signature derives the key that encrypts your cached messages in this browser.',
+    'It does not send a transaction or cost gas.',
+    '',
+    `Account: ${normalize(address)}`,
+  ].join('\n');
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function getSessionKey(address: string): CryptoKey {
+  const key = sessionKeys.get(normalize(address));
+  if (!key) {
+    throw new VaultLockedError();
+  }
+  return key;
+}
+
+async function encryptText(key: CryptoKey, text: string): Promise<Pick<VaultRecord, 'iv' | 'ciphertext'>> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decryptText(key: CryptoKey, record: Pick<VaultRecord, 'iv' | 'ciphertext'>): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(record.iv) },
+    key,
+    fromBase64(record.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Move plaintext messages cached by older versions into the vault
+ */
+async function migrateLegacyEntries(address: string): Promise<void> {
+  const prefix = `${LEGACY_STORAGE_PREFIX}${address}_`;
+  const legacyKeys = Object.keys(localStorage).filter(key => key.toLowerCase().startsWith(prefix.toLowerCase()));
+
+  for (const key of legacyKeys) {
+    const tokenId = Number(key.slice(prefix.length));
+    const message = localStorage.getItem(key);
+    if (Number.isInteger(tokenId) && message !== null) {
+      await putMessage(address, LEGACY_DEPLOYMENT, tokenId, message);
+    }
+    localStorage.removeItem(key);
+  }
+
+  if (legacyKeys.length > 0) {
+    console.log('🔐 Migrated', legacyKeys.length, 'plaintext message(s) into the vault');
+  }
+}
+
+/**
+ * Check whether the vault is unlocked for an address in this session
+ */
+export function isVaultUnlocked(address: string): boolean {
+  return sessionKeys.has(normalize(address));
+}
+
+/**
+ * Unlock the vault by asking the wallet for a deterministic signature
+ * The derived key lives in memory only and is dropped on reload or lockVault
+ */
+export async function unlockVault(address: string): Promise<void> {
+  if (isVaultUnlocked(address)) {
+    return;
+  }
+
+  const signer = await getSigner(address);
+  const signature = await signer.signMessage(vaultSigningMessage(address));
+
+  const keyMaterial = await crypto.subtle.importKey('raw', getBytes(signature), 'HKDF', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new TextEncoder().encode(normalize(address)),
+      info: new TextEncoder().encode('private-nft-vault-v1'),
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+  sessionKeys.set(normalize(address), key);
+  console.log('🔓 Message vault unlocked');
+
+  await migrateLegacyEntries(address);
+}
+
+/**
+ * Forget the session key for an address
+ */
+export function lockVault(address: string): void {
+  sessionKeys.delete(normalize(address));
+}
+
+async function putMessage(address: string, deployment: string, tokenId: number, message: string): Promise<void> {
+  const key = getSessionKey(address);
+  const encrypted = await encryptText(key, message);
+  const db = await getDatabase();
+
+  const record: VaultRecord = {
+    id: recordId(address, deployment, tokenId),
+    address: normalize(address),
+    deployment,
+    tokenId,
+    ...encrypted,
+  };
+  await withStore(db, STORE_NAME, 'readwrite', store => promisifyRequest(store.put(record)));
+}
+
+/**
+ * Encrypt and store a message for a token of the active deployment
+ */
+export async function saveMessage(address: string, tokenId: number, message: string): Promise<void> {
+  await putMessage(address, getActiveDeployment().key, tokenId, message);
+}
+
+/**
+ * Read and decrypt the cached message for a token of the active deployment
+ * @returns The plaintext, or null when nothing is cached
+ */
+export async function loadMessage(address: string, tokenId: number): Promise<string | null> {
+  const key = getSessionKey(address);
+  const db = await getDatabase();
+
+  const record = await withStore(db, STORE_NAME, 'readonly', store =>
+    promisifyRequest(store.get(recordId(address, getActiveDeployment().key, tokenId)) as IDBRequest<VaultRecord | undefined>)
+  );
+  if (!record) {
+    return null;
+  }
+
+  return decryptText(key, record);
+}
+
+/**
+ * Export every vault entry for an address (all deployments) as an encrypted backup file
+ * Entries stay encrypted; the same wallet is needed to read them after import
+ */
+export async function exportVault(address: string): Promise<Blob> {
+  getSessionKey(address);
+  const db = await getDatabase();
+
+  const records = await withStore(db, STORE_NAME, 'readonly', store =>
+    promisifyRequest(store.index('address').getAll(normalize(address)) as IDBRequest<VaultRecord[]>)
+  );
+
+  const backup: VaultBackup = {
+    version: BACKUP_VERSION,
+    address: normalize(address),
+    entries: records.map(({ deployment, tokenId, iv, ciphertext }) => ({ deployment, tokenId, iv, ciphertext })),
+  };
+
+  return new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Import an encrypted backup file produced by exportVault
+ * @returns Number of entries imported
+ */
+export async function importVault(address: string, file: File): Promise<number> {
+  const key = getSessionKey(address);
+
+  let backup: VaultBackup;
+  try {
+    backup = JSON.parse(await file.text()) as VaultBackup;
+  } catch {
+    throw new VaultBackupError('Backup file is not valid JSON');
+  }
+
+  if (backup.version > BACKUP_VERSION || !Array.isArray(backup.entries)) {
+    throw new VaultBackupError('Unsupported backup file format');
+  }
+  if (normalize(backup.address ?? '') !== normalize(address)) {
+    throw new VaultBackupError('Backup belongs to a different wallet address');
+  }
+
+  // Make sure the backup was written with this wallet's key before storing anything
+  for (const entry of backup.entries) {
+    try {
+      await decryptText(key, entry);
+    } catch {
+      throw new VaultBackupError(`Backup entry for token #${entry.tokenId} cannot be decrypted with this wallet`);
+    }
+  }
+
+  const db = await getDatabase();
+  await withStore(db, STORE_NAME, 'readwrite', async store => {
+    for (const entry of backup.entries) {
+      // Version 1 backups predate deployment scoping
+      const deployment = entry.deployment ?? LEGACY_DEPLOYMENT;
+      await promisifyRequest(store.put({
+        ...entry,
+        id: recordId(address, deployment, entry.tokenId),
+        address: normalize(address),
+        deployment,
+      } satisfies VaultRecord));
+    }
+  });
+
+  console.log('📥 Imported', backup.entries.length, 'vault entries');
+  return backup.entries.length;
+}
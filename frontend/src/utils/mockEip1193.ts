@@ -0,0 +1,83 @@
+import type { EIP1193Provider } from 'viem';
+
+/**
+ * Injected-wallet stand-in for mock mode
+ * Forwards requests to a local Hardhat/anvil node and signs with its unlocked dev accounts,
+ * so the app runs without MetaMask. Switch accounts with VITE_MOCK_ACCOUNT_INDEX.
+ */
+
+type Listener = (...args: unknown[]) => void;
+
+interface RpcResponse {
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+class RpcError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Create an EIP-1193 provider backed by a local node's dev accounts
+ */
+export function createMockEip1193Provider(rpcUrl: string, accountIndex = 0): EIP1193Provider {
+  const listeners = new Map<string, Set<Listener>>();
+  let nextId = 1;
+
+  const send = async (method: string, params: unknown = []): Promise<unknown> => {
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+    });
+    const body = await response.json() as RpcResponse;
+    if (body.error) {
+      throw new RpcError(body.error.code, body.error.message, body.error.data);
+    }
+    return body.result;
+  };
+
+  const getAccount = async (): Promise<string[]> => {
+    const accounts = await send('eth_accounts') as string[];
+    const account = accounts[accountIndex];
+    if (!account) {
+      throw new RpcError(4100, `Local node has no unlocked account at index ${accountIndex}`);
+    }
+    return [account];
+  };
+
+  const request = async ({ method, params }: { method: string; params?: unknown }): Promise<unknown> => {
+    switch (method) {
+      case 'eth_requestAccounts':
+      case 'eth_accounts':
+        return getAccount();
+      case 'wallet_switchEthereumChain':
+      case 'wallet_addEthereumChain':
+        // Only the local chain exists here
+        return null;
+      default:
+        return send(method, params);
+    }
+  };
+
+  return {
+    request,
+    on(event: string, listener: Listener) {
+      if (!listeners.has(event)) {
+        listeners.set(event, new Set());
+      }
+      listeners.get(event)!.add(listener);
+    },
+    removeListener(event: string, listener: Listener) {
+      listeners.get(event)?.delete(listener);
+    },
+  } as unknown as EIP1193Provider;
+}
@@ -0,0 +1,341 @@
+import {
+  AbiCoder,
+  Contract,
+  JsonRpcProvider,
+  getAddress,
+  getBytes,
+  hexlify,
+  keccak256,
+  randomBytes,
+  solidityPackedKeccak256,
+  verifyTypedData,
+} from 'ethers';
+import type {
+  ClearValueType,
+  EIP712,
+  EncryptionBits,
+  FhevmInstance,
+  PublicDecryptResults,
+  RelayerEncryptedInput,
+} from '@zama-fhe/relayer-sdk/web';
+import { openDatabase, promisifyRequest, withStore } from './idb';
+
+/**
+ * Mock FHEVM instance for local development against MockHiddenAttributeNFT
+ * Handles are derived deterministically from the input, plaintexts are kept in
+ * IndexedDB (reachable from the FHE worker) and decryption only checks the mock
+ * contract's ACL. Nothing is encrypted.
+ */
+
+export interface MockFhevmConfig {
+  /** Contract exposing persistAllowed / isAllowedForDecryption (the mock NFT itself) */
+  aclContractAddress: string;
+  chainId: number;
+  rpcUrl: string;
+}
+
+interface StoredPlaintext {
+  handle: string;
+  bits: EncryptionBits;
+  value: string;
+}
+
+const DB_NAME = 'mock-fhevm';
+const STORE_NAME = 'plaintexts';
+const HANDLE_VERSION = 0;
+
+// FheTypeId per bit width, matching the relayer SDK
+const FHE_TYPES: Record<EncryptionBits, number> = { 2: 0, 8: 2, 16: 3, 32: 4, 64: 5, 128: 6, 160: 7, 256: 8 };
+
+const MOCK_ACL_ABI = [
+  'function persistAllowed(bytes32 handle, address account) view returns (bool)',
+  'function isAllowedForDecryption(bytes32 handle) view returns (bool)',
+  // Mock-only: inputs of the comparison behind a condition proof result
+  'function getMockComparison(bytes32 result) view returns (bytes32[] lhs, bytes32[] rhs, uint256 operand, uint8 op)',
+];
+
+// Comparisons in the order of the contract's Comparison enum
+const COMPARISONS: ((lhs: bigint, rhs: bigint) => boolean)[] = [
+  (lhs, rhs) => lhs === rhs,
+  (lhs, rhs) => lhs !== rhs,
+  (lhs, rhs) => lhs >= rhs,
+  (lhs, rhs) => lhs > rhs,
+  (lhs, rhs) => lhs <= rhs,
+  (lhs, rhs) => lhs < rhs,
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, 1, db => {
+      db.createObjectStore(STORE_NAME, { keyPath: 'handle' });
+    });
+  }
+  return dbPromise;
+}
+
+async function loadPlaintexts(handles: string[]): Promise<Record<string, StoredPlaintext>> {
+  const db = await getDatabase();
+  const entries = await withStore(db, STORE_NAME, 'readonly', store =>
+    Promise.all(handles.map(handle =>
+      promisifyRequest(store.get(handle) as IDBRequest<StoredPlaintext | undefined>)
+    ))
+  );
+  return Object.fromEntries(entries.filter(entry => entry !== undefined).map(entry => [entry.handle, entry]));
+}
+
+async function savePlaintexts(entries: StoredPlaintext[]): Promise<void> {
+  const db = await getDatabase();
+  await withStore(db, STORE_NAME, 'readwrite', async store => {
+    for (const entry of entries) {
+      await promisifyRequest(store.put(entry));
+    }
+  });
+}
+
+function toHandle(handle: string | Uint8Array): `0x${string}` {
+  return (typeof handle === 'string' ? handle.toLowerCase() : hexlify(handle)) as `0x${string}`;
+}
+
+/**
+ * Convert a stored plaintext to the value type the relayer SDK returns for its FHE type
+ */
+function toClearValue(handle: string, plaintexts: Record<string, StoredPlaintext>): ClearValueType {
+  const entry = plaintexts[handle];
+  if (!entry) {
+    throw new Error(`Mock FHEVM has no plaintext for handle ${handle}`);
+  }
+  const value = BigInt(entry.value);
+  if (entry.bits === 2) {
+    return value !== 0n;
+  }
+  if (entry.bits === 160) {
+    return getAddress(`0x${value.toString(16).padStart(40, '0')}`) as `0x${string}`;
+  }
+  return value;
+}
+
+/**
+ * Compute condition proof results the mock contract derived from stored handles
+ * The contract cannot compare opaque handles, so it records the comparison's inputs and the
+ * result is evaluated here from their plaintexts, then stored like any other plaintext.
+ */
+async function computeComparisons(
+  keys: string[],
+  plaintexts: Record<string, StoredPlaintext>,
+  acl: Contract
+): Promise<void> {
+  const computed: StoredPlaintext[] = [];
+  for (const key of keys) {
+    if (plaintexts[key]) continue;
+
+    const [lhs, rhs, operand, op] = await acl.getMockComparison(key) as [string[], string[], bigint, bigint];
+    // Not a comparison result: toClearValue reports the missing plaintext
+    if (lhs.length === 0) continue;
+
+    const inputs = await loadPlaintexts([...lhs, ...rhs].map(toHandle));
+    const valueOf = (handle: string) => {
+      const input = inputs[toHandle(handle)];
+      if (!input) {
+        throw new Error(`Mock FHEVM has no plaintext for handle ${handle}, an input of ${key}`);
+      }
+      return BigInt(input.value);
+    };
+    const left = lhs.map(valueOf);
+    const right = rhs.length > 0 ? rhs.map(valueOf) : [operand];
+
+    // Messages span several chunks and are only compared for equality, chunk by chunk
+    const result = left.length === 1 && right.length === 1
+      ? COMPARISONS[Number(op)](left[0], right[0])
+      : left.length === right.length && left.every((value, index) => value === right[index]);
+
+    const entry: StoredPlaintext = { handle: key, bits: 2, value: result ? '1' : '0' };
+    plaintexts[key] = entry;
+    computed.push(entry);
+  }
+  if (computed.length > 0) {
+    await savePlaintexts(computed);
+  }
+}
+
+function checkRange(value: bigint, bits: number): bigint {
+  if (value < 0n || value >= 1n << BigInt(bits)) {
+    throw new Error(`Value ${value} does not fit in ${bits} bits`);
+  }
+  return value;
+}
+
+function createMockInput(contractAddress: string, userAddress: string, chainId: number): RelayerEncryptedInput {
+  const values: { bits: EncryptionBits; value: bigint }[] = [];
+
+  const input: RelayerEncryptedInput = {
+    addBool(value) {
+      values.push({ bits: 2, value: BigInt(value) === 0n ? 0n : 1n });
+      return input;
+    },
+    add8(value) {
+      values.push({ bits: 8, value: checkRange(BigInt(value), 8) });
+      return input;
+    },
+    add16(value) {
+      values.push({ bits: 16, value: checkRange(BigInt(value), 16) });
+      return input;
+    },
+    add32(value) {
+      values.push({ bits: 32, value: checkRange(BigInt(value), 32) });
+      return input;
+    },
+    add64(value) {
+      values.push({ bits: 64, value: checkRange(BigInt(value), 64) });
+      return input;
+    },
+    add128(value) {
+      values.push({ bits: 128, value: checkRange(BigInt(value), 128) });
+      return input;
+    },
+    add256(value) {
+      values.push({ bits: 256, value: checkRange(BigInt(value), 256) });
+      return input;
+    },
+    addAddress(value) {
+      values.push({ bits: 160, value: BigInt(getAddress(value)) });
+      return input;
+    },
+    getBits() {
+      return values.map(entry => entry.bits);
+    },
+    async encrypt() {
+      const coder = AbiCoder.defaultAbiCoder();
+      const entries: StoredPlaintext[] = [];
+
+      const handles = values.map(({ bits, value }, index) => {
+        const hash = getBytes(keccak256(coder.encode(
+          ['address', 'address', 'uint256', 'uint8', 'uint16', 'uint256'],
+          [contractAddress, userAddress, chainId, index, bits, value]
+        )));
+        // Same trailing layout as real handles: FHE type, then handle version
+        hash[30] = FHE_TYPES[bits];
+        hash[31] = HANDLE_VERSION;
+        entries.push({ handle: hexlify(hash), bits, value: value.toString() });
+        return hash;
+      });
+      await savePlaintexts(entries);
+
+      // Checked by MockHiddenAttributeNFT in place of FHE.fromExternal
+      const inputProof = solidityPackedKeccak256(
+        ['bytes32[]', 'address', 'address'],
+        [handles.map(handle => hexlify(handle)), userAddress, contractAddress]
+      );
+
+      return { handles, inputProof: getBytes(inputProof) };
+    },
+  };
+
+  return input;
+}
+
+/**
+ * Create a mock FhevmInstance with the same surface as the relayer SDK's
+ */
+export function createMockInstance(config: MockFhevmConfig): FhevmInstance {
+  const provider = new JsonRpcProvider(config.rpcUrl, config.chainId, { staticNetwork: true });
+  const acl = new Contract(config.aclContractAddress, MOCK_ACL_ABI, provider);
+
+  // Same typed data as the relayer SDK, with the mock contract as verifying contract
+  const createEIP712 = (
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): EIP712 => ({
+    domain: {
+      name: 'Decryption',
+      version: '1',
+      chainId: config.chainId,
+      verifyingContract: config.aclContractAddress,
+    },
+    types: {
+      UserDecryptRequestVerification: [
+        { name: 'publicKey', type: 'bytes' },
+        { name: 'contractAddresses', type: 'address[]' },
+        { name: 'startTimestamp', type: 'uint256' },
+        { name: 'durationDays', type: 'uint256' },
+        { name: 'extraData', type: 'bytes' },
+      ],
+    },
+    primaryType: 'UserDecryptRequestVerification',
+    message: {
+      publicKey: publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`,
+      contractAddresses,
+      startTimestamp: startTimestamp.toString(),
+      durationDays: durationDays.toString(),
+      extraData: '0x00',
+    },
+  });
+
+  return {
+    createEncryptedInput(contractAddress, userAddress) {
+      return createMockInput(contractAddress, userAddress, config.chainId);
+    },
+
+    generateKeypair() {
+      return { publicKey: hexlify(randomBytes(32)), privateKey: hexlify(randomBytes(32)) };
+    },
+
+    createEIP712,
+
+    async userDecrypt(handles, _privateKey, publicKey, signature, contractAddresses, userAddress, startTimestamp, durationDays) {
+      const eip712 = createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+      const signer = verifyTypedData(
+        eip712.domain,
+        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+        eip712.message,
+        signature.startsWith('0x') ? signature : `0x${signature}`
+      );
+      if (getAddress(signer) !== getAddress(userAddress)) {
+        throw new Error('Mock FHEVM: decryption request was not signed by the user');
+      }
+
+      const keys = handles.map(({ handle }) => toHandle(handle));
+      const plaintexts = await loadPlaintexts(keys);
+      await computeComparisons(keys, plaintexts, acl);
+      const results: Record<`0x${string}`, ClearValueType> = {};
+      for (const key of keys) {
+        if (!(await acl.persistAllowed(key, userAddress))) {
+          throw new Error(`Mock FHEVM: ${userAddress} is not allowed to decrypt ${key}`);
+        }
+        results[key] = toClearValue(key, plaintexts);
+      }
+      return results;
+    },
+
+    async publicDecrypt(handles): Promise<PublicDecryptResults> {
+      const keys = handles.map(toHandle);
+      const plaintexts = await loadPlaintexts(keys);
+      await computeComparisons(keys, plaintexts, acl);
+      const clearValues: Record<`0x${string}`, ClearValueType> = {};
+      for (const key of keys) {
+        if (!(await acl.isAllowedForDecryption(key))) {
+          throw new Error(`Mock FHEVM: handle ${key} is not publicly decryptable`);
+        }
+        clearValues[key] = toClearValue(key, plaintexts);
+      }
+
+      const abiEncodedClearValues = AbiCoder.defaultAbiCoder().encode(
+        keys.map(() => 'uint256'),
+        keys.map(key => BigInt(plaintexts[key].value))
+      ) as `0x${string}`;
+
+      return { clearValues, abiEncodedClearValues, decryptionProof: '0x' };
+    },
+
+    getPublicKey() {
+      return null;
+    },
+
+    getPublicParams() {
+      return null;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * ERC-721 metadata documents in the OpenSea-compatible format
+ * See https://docs.opensea.io/docs/metadata-standards
+ */
+
+export interface NFTMetadataAttribute {
+  trait_type: string;
+  value: string | number | boolean;
+  display_type?: 'number' | 'boost_number' | 'boost_percentage' | 'date';
+}
+
+export interface NFTMetadata {
+  name: string;
+  description: string;
+  image: string;
+  external_url?: string;
+  attributes: NFTMetadataAttribute[];
+}
+
+export const DEFAULT_NFT_NAME = 'Private NFT';
+export const DEFAULT_NFT_DESCRIPTION =
+  'An NFT carrying a message encrypted on-chain with Zama FHEVM. Only addresses on the ACL can decrypt it.';
+
+interface BuildMetadataOptions {
+  name?: string;
+  description?: string;
+  imageUri: string;
+  messageChunks: number;
+  /** Names of the encrypted attributes the token carries */
+  attributeNames?: string[];
+}
+
+/**
+ * Build the public metadata document for a token
+ * Only public data goes in here: the message and attribute values stay encrypted on-chain.
+ */
+export function buildMetadata({ name, description, imageUri, messageChunks, attributeNames = [] }: BuildMetadataOptions): NFTMetadata {
+  return {
+    name: name?.trim() || DEFAULT_NFT_NAME,
+    description: description?.trim() || DEFAULT_NFT_DESCRIPTION,
+    image: imageUri,
+    external_url: typeof window !== 'undefined' ? window.location.origin : undefined,
+    attributes: [
+      { trait_type: 'encrypted', value: true },
+      { trait_type: 'encryption', value: 'Zama FHEVM' },
+      { trait_type: 'message chunks', value: messageChunks, display_type: 'number' },
+      ...(attributeNames.length > 0 ? [{ trait_type: 'encrypted attributes', value: attributeNames.join(', ') }] : []),
+    ],
+  };
+}
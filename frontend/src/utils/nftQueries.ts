@@ -0,0 +1,223 @@
+import { QueryClient, infiniteQueryOptions, queryOptions } from '@tanstack/react-query';
+import type { Address } from 'viem';
+import * as nftService from './nftService';
+import { getTokenEvents, syncEvents } from './eventIndexer';
+import { getActiveDeployment, getContractAddress } from './activeDeployment';
+import { readPublicMessage } from './publicMessage';
+
+/**
+ * Cached contract reads for the gallery, explorer and token pages
+ * Keys are scoped per chain and contract, so deployments never share entries, and
+ * per token so one mint or transfer only invalidates what it touched.
+ */
+
+export const COLLECTION_PAGE_SIZE = 12;
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Token data only changes through transactions, which invalidate explicitly
+      staleTime: 60_000,
+      retry: 1,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
+
+function scope() {
+  return ['nft', getActiveDeployment().network.chain.id, getContractAddress().toLowerCase()] as const;
+}
+
+export const nftKeys = {
+  all: () => scope(),
+  owned: (owner: Address) => [...scope(), 'owned', owner.toLowerCase()] as const,
+  sharedAll: () => [...scope(), 'shared'] as const,
+  shared: (viewer: Address) => [...nftKeys.sharedAll(), viewer.toLowerCase()] as const,
+  collection: () => [...scope(), 'collection'] as const,
+  schema: () => [...scope(), 'schema'] as const,
+  collectionOwner: () => [...scope(), 'collectionOwner'] as const,
+  token: (tokenId: bigint) => [...scope(), 'token', tokenId.toString()] as const,
+  image: (tokenId: bigint) => [...nftKeys.token(tokenId), 'image'] as const,
+  summary: (tokenId: bigint) => [...nftKeys.token(tokenId), 'summary'] as const,
+  activity: (tokenId: bigint) => [...nftKeys.token(tokenId), 'activity'] as const,
+  viewers: (tokenId: bigint) => [...nftKeys.token(tokenId), 'viewers'] as const,
+  messagePublic: (tokenId: bigint) => [...nftKeys.token(tokenId), 'messagePublic'] as const,
+  publicMessage: (tokenId: bigint) => [...nftKeys.token(tokenId), 'publicMessage'] as const,
+  proof: (proofId: bigint) => [...scope(), 'proof', proofId.toString()] as const,
+};
+
+/**
+ * Encrypted attributes declared for the collection
+ */
+export function attributeSchemaQuery() {
+  return queryOptions({
+    queryKey: nftKeys.schema(),
+    queryFn: nftService.getAttributeSchema,
+  });
+}
+
+export function collectionOwnerQuery() {
+  return queryOptions({
+    queryKey: nftKeys.collectionOwner(),
+    queryFn: nftService.getCollectionOwner,
+  });
+}
+
+/**
+ * A recorded condition proof, which never changes once mined
+ */
+export function proofQuery(proofId: bigint) {
+  return queryOptions({
+    queryKey: nftKeys.proof(proofId),
+    queryFn: () => nftService.getProof(proofId),
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Whether the owner revealed the token's current message publicly
+ */
+export function messagePublicQuery(tokenId: bigint) {
+  return queryOptions({
+    queryKey: nftKeys.messagePublic(tokenId),
+    queryFn: () => nftService.isMessagePublic(tokenId),
+  });
+}
+
+/**
+ * Plaintext of a publicly revealed message, which only changes with a message update
+ * (that invalidates the whole token)
+ */
+export function publicMessageQuery(tokenId: bigint) {
+  return queryOptions({
+    queryKey: nftKeys.publicMessage(tokenId),
+    queryFn: () => readPublicMessage(tokenId),
+    staleTime: Infinity,
+  });
+}
+
+export function ownedTokensQuery(owner: Address) {
+  return queryOptions({
+    queryKey: nftKeys.owned(owner),
+    queryFn: () => nftService.listOwned(owner),
+  });
+}
+
+/**
+ * Token ids other owners let an address decrypt
+ */
+export function sharedTokensQuery(viewer: Address) {
+  return queryOptions({
+    queryKey: nftKeys.shared(viewer),
+    queryFn: () => nftService.listSharedWith(viewer),
+  });
+}
+
+export function viewersQuery(tokenId: bigint) {
+  return queryOptions({
+    queryKey: nftKeys.viewers(tokenId),
+    queryFn: () => nftService.getViewers(tokenId),
+  });
+}
+
+export function imageUriQuery(tokenId: bigint) {
+  return queryOptions({
+    queryKey: nftKeys.image(tokenId),
+    queryFn: () => nftService.getImageUri(tokenId),
+    // Image URIs are set at mint and never change
+    staleTime: Infinity,
+  });
+}
+
+export function tokenSummaryQuery(tokenId: bigint) {
+  return queryOptions({
+    queryKey: nftKeys.summary(tokenId),
+    queryFn: () => nftService.getTokenSummary(tokenId),
+  });
+}
+
+/**
+ * Provenance of a token from the local event index, synced before reading
+ */
+export function tokenActivityQuery(tokenId: bigint) {
+  return queryOptions({
+    queryKey: nftKeys.activity(tokenId),
+    queryFn: async () => {
+      await syncEvents();
+      return getTokenEvents(tokenId);
+    },
+  });
+}
+
+/**
+ * Token ids of the whole collection, newest first, one page per fetch
+ */
+export function collectionQuery() {
+  return infiniteQueryOptions({
+    queryKey: nftKeys.collection(),
+    queryFn: async ({ pageParam }) => {
+      const total = await nftService.totalSupply();
+      const indexes: bigint[] = [];
+      for (let i = pageParam; i < pageParam + COLLECTION_PAGE_SIZE && BigInt(i) < total; i++) {
+        indexes.push(total - 1n - BigInt(i));
+      }
+      return { total, tokenIds: await Promise.all(indexes.map(nftService.tokenByIndex)) };
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.reduce((count, page) => count + page.tokenIds.length, 0);
+      return BigInt(loaded) < lastPage.total ? loaded : undefined;
+    },
+  });
+}
+
+/**
+ * Refresh what a mint changed: the owner's list and the collection
+ */
+export function invalidateAfterMint(client: QueryClient, owner: Address): Promise<void> {
+  return Promise.all([
+    client.invalidateQueries({ queryKey: nftKeys.owned(owner) }),
+    client.invalidateQueries({ queryKey: nftKeys.collection() }),
+  ]).then(() => undefined);
+}
+
+/**
+ * Refresh what a transfer changed: both owners' lists and the token itself
+ */
+export function invalidateAfterTransfer(client: QueryClient, tokenId: bigint, from: Address, to: Address): Promise<void> {
+  return Promise.all([
+    client.invalidateQueries({ queryKey: nftKeys.owned(from) }),
+    client.invalidateQueries({ queryKey: nftKeys.owned(to) }),
+    client.invalidateQueries({ queryKey: nftKeys.summary(tokenId) }),
+    client.invalidateQueries({ queryKey: nftKeys.activity(tokenId) }),
+  ]).then(() => undefined);
+}
+
+/**
+ * Refresh what a grant changed: the token's viewers and the viewer's shared list
+ */
+export function invalidateAfterGrant(client: QueryClient, tokenId: bigint, viewer: Address): Promise<void> {
+  return Promise.all([
+    client.invalidateQueries({ queryKey: nftKeys.viewers(tokenId) }),
+    client.invalidateQueries({ queryKey: nftKeys.shared(viewer) }),
+    client.invalidateQueries({ queryKey: nftKeys.activity(tokenId) }),
+  ]).then(() => undefined);
+}
+
+/**
+ * Refresh what a message update changed: the token (chunk count, viewers, history) and
+ * every shared list, since the contract drops the token's viewers
+ */
+export function invalidateAfterMessageUpdate(client: QueryClient, tokenId: bigint): Promise<void> {
+  return Promise.all([
+    client.invalidateQueries({ queryKey: nftKeys.token(tokenId) }),
+    client.invalidateQueries({ queryKey: nftKeys.sharedAll() }),
+  ]).then(() => undefined);
+}
+
+/**
+ * Refresh what a public reveal changed: the token's summary and history
+ */
+export function invalidateAfterReveal(client: QueryClient, tokenId: bigint): Promise<void> {
+  return client.invalidateQueries({ queryKey: nftKeys.token(tokenId) });
+}
@@ -0,0 +1,879 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  parseEventLogs,
+  isAddressEqual,
+  zeroAddress,
+  zeroHash,
+  type Address,
+  type Hex,
+  type TransactionReceipt,
+} from 'viem';
+import { CONTRACT_ABI, LEGACY_CONTRACT_ABI } from '../config/contracts';
+import { ensureActiveChain, getEthereumProvider } from './walletConnection';
+import { getActiveChain, getActiveDeployment, getContractAddress, isLegacyDeployment } from './activeDeployment';
+import { getReadClient } from './readClient';
+import { ATTRIBUTE_TYPES, toAttributeDefinition, type AttributeDefinition, type AttributeType } from './attributeSchema';
+import { COMPARISONS, toConditionProof, type Comparison, type ConditionProof } from './conditionProof';
+import { markReplaced, setTransactionToken, trackTransaction } from './txTracker';
+
+/**
+ * Typed access to the HiddenAttributeNFT contract
+ * Argument and return types are inferred by viem from CONTRACT_ABI.
+ * Chain and address come from the active deployment at call time. Reads work without a
+ * wallet (see readClient.ts), writes need a connected signer and are recorded by txTracker.
+ * Legacy deployments (see DeploymentConfig.legacy) mint and read single-chunk messages through
+ * the original functions.
+ */
+
+export interface MintParams {
+  encryptedChunks: Hex[];
+  /** One handle per schema attribute, in schema order */
+  encryptedAttributes: Hex[];
+  inputProof: Hex;
+  imageUri: string;
+  metadataUri: string;
+}
+
+export interface MintResult {
+  tokenId: bigint;
+  owner: Address;
+  txHash: Hex;
+  blockNumber: bigint;
+}
+
+export interface TransferResult {
+  tokenId: bigint;
+  from: Address;
+  to: Address;
+  txHash: Hex;
+  blockNumber: bigint;
+}
+
+/** Public facts about a token, as listed by the explorer */
+export interface TokenSummary {
+  tokenId: bigint;
+  owner: Address;
+  imageUri: string;
+  /** Number of encrypted message chunks, 0 when the token carries no message */
+  encryptedChunks: number;
+  /** Whether the owner made the current message publicly decryptable */
+  messagePublic: boolean;
+}
+
+/** A Transfer event of the contract, mints included (from the zero address) */
+export interface TransferLog {
+  tokenId: bigint;
+  from: Address;
+  to: Address;
+  txHash: Hex;
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+export interface UpdateMessageParams {
+  encryptedChunks: Hex[];
+  inputProof: Hex;
+}
+
+export interface GrantViewerResult {
+  tokenId: bigint;
+  viewer: Address;
+  txHash: Hex;
+  blockNumber: bigint;
+}
+
+export interface ProveAttributeParams {
+  tokenId: bigint;
+  /** Attribute key, the keccak256 hash of its name */
+  key: Hex;
+  op: Comparison;
+  /** Whether anyone may decrypt the outcome, not only the requester */
+  publicResult: boolean;
+}
+
+export interface ProveMessageParams {
+  tokenId: bigint;
+  encryptedChunks: Hex[];
+  inputProof: Hex;
+  publicResult: boolean;
+}
+
+export interface ProofResult {
+  proofId: bigint;
+  tokenId: bigint;
+  txHash: Hex;
+  blockNumber: bigint;
+}
+
+export interface WriteOptions {
+  /** Called once the wallet has broadcast the transaction */
+  onSubmitted?: (txHash: Hex) => void;
+}
+
+/**
+ * Thrown when a confirmed receipt does not contain the expected Transfer event
+ */
+export class TransferEventNotFoundError extends Error {
+  constructor(txHash: Hex) {
+    super(`No matching Transfer event from ${getContractAddress()} in transaction ${txHash}`);
+    this.name = 'TransferEventNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a feature needs functions the active deployment's legacy contract does not have
+ */
+export class LegacyContractError extends Error {
+  constructor(feature: string) {
+    super(`${feature} is not supported by the ${getActiveDeployment().deployment.label} contract, which predates it`);
+    this.name = 'LegacyContractError';
+  }
+}
+
+/**
+ * Thrown when the user cancelled a pending transaction from their wallet
+ */
+export class TransactionCancelledError extends Error {
+  constructor(txHash: Hex) {
+    super(`Transaction ${txHash} was cancelled in the wallet`);
+    this.name = 'TransactionCancelledError';
+  }
+}
+
+/**
+ * Wait for a tracked transaction, following it when the wallet speeds it up
+ * @throws TransactionCancelledError when the wallet cancelled it instead
+ */
+async function waitForReceipt(txHash: Hex): Promise<TransactionReceipt> {
+  let cancelled = false;
+  const receipt = await getReadClient().waitForTransactionReceipt({
+    hash: txHash,
+    onReplaced: replacement => {
+      cancelled = replacement.reason === 'cancelled';
+      markReplaced(txHash, replacement.transaction.hash, cancelled);
+    },
+  });
+  if (cancelled) {
+    throw new TransactionCancelledError(txHash);
+  }
+  return receipt;
+}
+
+async function getWalletClient() {
+  const walletClient = createWalletClient({ chain: getActiveChain(), transport: custom(getEthereumProvider()) });
+  const [account] = await walletClient.getAddresses();
+  if (!account) {
+    throw new Error('Wallet not connected');
+  }
+  return { walletClient, account };
+}
+
+/**
+ * Ask the wallet, which has just broadcast the transaction, for the nonce it used
+ * txTracker compares it with the sender's mined nonce to notice replacements.
+ */
+async function submittedNonce(txHash: Hex): Promise<number | null> {
+  try {
+    const client = createPublicClient({ chain: getActiveChain(), transport: custom(getEthereumProvider()) });
+    const { nonce } = await client.getTransaction({ hash: txHash });
+    return nonce;
+  } catch (error) {
+    console.warn(`⚠️ Could not read the nonce of ${txHash}, tracking without it:`, error);
+    return null;
+  }
+}
+
+/**
+ * Refuse writes the active deployment's legacy contract has no function for
+ * Reads of those features return empty results there instead.
+ */
+function requireCurrentContract(feature: string): void {
+  if (isLegacyDeployment()) {
+    throw new LegacyContractError(feature);
+  }
+}
+
+/**
+ * Find the contract's Transfer events in a receipt, ignoring logs from other contracts
+ * (the FHE executor and ACL emit their own events during mint)
+ */
+function findTransfers(receipt: TransactionReceipt) {
+  return parseEventLogs({ abi: CONTRACT_ABI, eventName: 'Transfer', logs: receipt.logs })
+    .filter(log => isAddressEqual(log.address, getContractAddress()));
+}
+
+/**
+ * Read the proof id a confirmed condition proof transaction recorded
+ */
+function proofFromReceipt(receipt: TransactionReceipt, tokenId: bigint): ProofResult {
+  const proven = parseEventLogs({ abi: CONTRACT_ABI, eventName: 'ConditionProven', logs: receipt.logs })
+    .find(log => isAddressEqual(log.address, getContractAddress()) && log.args.tokenId === tokenId);
+  if (!proven) {
+    throw new Error(`No ConditionProven event for NFT #${tokenId} in transaction ${receipt.transactionHash}`);
+  }
+  return { proofId: proven.args.proofId, tokenId, txHash: receipt.transactionHash, blockNumber: receipt.blockNumber };
+}
+
+/**
+ * Mint a token with an encrypted multi-chunk message and the collection's encrypted attributes
+ */
+export async function mint(params: MintParams, options: WriteOptions = {}): Promise<MintResult> {
+  const legacy = isLegacyDeployment();
+  if (legacy && (params.encryptedChunks.length !== 1 || params.encryptedAttributes.length > 0)) {
+    throw new LegacyContractError('Minting more than one message chunk or any attribute');
+  }
+
+  await ensureActiveChain();
+  const { walletClient, account } = await getWalletClient();
+
+  let txHash: Hex;
+  if (legacy) {
+    // The original mint takes a single chunk and stores no metadata URI
+    txHash = await walletClient.writeContract({
+      account,
+      address: getContractAddress(),
+      abi: LEGACY_CONTRACT_ABI,
+      functionName: 'mint',
+      args: [params.encryptedChunks[0], params.inputProof, params.imageUri],
+    });
+  } else {
+    txHash = await walletClient.writeContract({
+      account,
+      address: getContractAddress(),
+      abi: CONTRACT_ABI,
+      functionName: 'mintWithAttributes',
+      args: [params.encryptedChunks, params.encryptedAttributes, params.inputProof, params.imageUri, params.metadataUri],
+    });
+  }
+  trackTransaction({
+    hash: txHash,
+    kind: 'mint',
+    from: account,
+    nonce: await submittedNonce(txHash),
+    params: {
+      chunks: params.encryptedChunks.length.toString(),
+      attributes: params.encryptedAttributes.length.toString(),
+      imageUri: params.imageUri,
+    },
+  });
+  options.onSubmitted?.(txHash);
+
+  const receipt = await waitForReceipt(txHash);
+  if (receipt.status !== 'success') {
+    throw new Error(`Mint failed in transaction ${receipt.transactionHash}`);
+  }
+  const minted = findTransfers(receipt).find(
+    log => isAddressEqual(log.args.from, zeroAddress) && isAddressEqual(log.args.to, account)
+  );
+  if (!minted) {
+    throw new TransferEventNotFoundError(txHash);
+  }
+  setTransactionToken(receipt.transactionHash, minted.args.tokenId);
+
+  return {
+    tokenId: minted.args.tokenId,
+    owner: minted.args.to,
+    // The mined transaction, which differs from the submitted one after a speed-up
+    txHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+  };
+}
+
+/**
+ * Transfer a token owned by the connected account
+ */
+export async function transfer(to: Address, tokenId: bigint, options: WriteOptions = {}): Promise<TransferResult> {
+  await ensureActiveChain();
+  const { walletClient, account } = await getWalletClient();
+
+  const txHash = await walletClient.writeContract({
+    account,
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'transferFrom',
+    args: [account, to, tokenId],
+  });
+  trackTransaction({ hash: txHash, kind: 'transfer', from: account, nonce: await submittedNonce(txHash), tokenId, params: { to } });
+  options.onSubmitted?.(txHash);
+
+  const receipt = await waitForReceipt(txHash);
+  if (receipt.status !== 'success') {
+    throw new Error(`Transfer of NFT #${tokenId} failed in transaction ${receipt.transactionHash}`);
+  }
+  const transferred = findTransfers(receipt).find(log => log.args.tokenId === tokenId);
+  if (!transferred) {
+    throw new TransferEventNotFoundError(txHash);
+  }
+
+  return {
+    tokenId,
+    from: transferred.args.from,
+    to: transferred.args.to,
+    txHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+  };
+}
+
+/**
+ * Add an attribute to the collection schema (contract owner only)
+ */
+export async function defineAttribute(
+  definition: { name: string; type: AttributeType; min: bigint; max: bigint },
+  options: WriteOptions = {}
+): Promise<Hex> {
+  requireCurrentContract('Declaring attributes');
+  await ensureActiveChain();
+  const { walletClient, account } = await getWalletClient();
+
+  const txHash = await walletClient.writeContract({
+    account,
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'defineAttribute',
+    args: [definition.name, ATTRIBUTE_TYPES.indexOf(definition.type), definition.min, definition.max],
+  });
+  trackTransaction({ hash: txHash, kind: 'schema', from: account, nonce: await submittedNonce(txHash), params: { name: definition.name, type: definition.type } });
+  options.onSubmitted?.(txHash);
+
+  const receipt = await waitForReceipt(txHash);
+  if (receipt.status !== 'success') {
+    throw new Error(`Declaring attribute ${definition.name} failed in transaction ${receipt.transactionHash}`);
+  }
+  return receipt.transactionHash;
+}
+
+/**
+ * Replace the message of a token owned by the connected account with freshly encrypted chunks
+ * Former owners and viewers keep reading the old ciphertext, not the new one.
+ */
+export async function updateMessage(tokenId: bigint, params: UpdateMessageParams, options: WriteOptions = {}): Promise<Hex> {
+  requireCurrentContract('Updating a message');
+  await ensureActiveChain();
+  const { walletClient, account } = await getWalletClient();
+
+  const txHash = await walletClient.writeContract({
+    account,
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'updateMessage',
+    args: [tokenId, params.encryptedChunks, params.inputProof],
+  });
+  trackTransaction({
+    hash: txHash,
+    kind: 'update',
+    from: account,
+    nonce: await submittedNonce(txHash),
+    tokenId,
+    params: { chunks: params.encryptedChunks.length.toString() },
+  });
+  options.onSubmitted?.(txHash);
+
+  const receipt = await waitForReceipt(txHash);
+  if (receipt.status !== 'success') {
+    throw new Error(`Updating the message of NFT #${tokenId} failed in transaction ${receipt.transactionHash}`);
+  }
+  return receipt.transactionHash;
+}
+
+/**
+ * Make the message of a token owned by the connected account publicly decryptable
+ * There is no way back for the current ciphertext; updating the message makes the token private again.
+ */
+export async function revealPublicly(tokenId: bigint, options: WriteOptions = {}): Promise<Hex> {
+  requireCurrentContract('Public reveal');
+  await ensureActiveChain();
+  const { walletClient, account } = await getWalletClient();
+
+  const txHash = await walletClient.writeContract({
+    account,
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'revealPublicly',
+    args: [tokenId],
+  });
+  trackTransaction({ hash: txHash, kind: 'reveal', from: account, nonce: await submittedNonce(txHash), tokenId, params: {} });
+  options.onSubmitted?.(txHash);
+
+  const receipt = await waitForReceipt(txHash);
+  if (receipt.status !== 'success') {
+    throw new Error(`Revealing NFT #${tokenId} failed in transaction ${receipt.transactionHash}`);
+  }
+  return receipt.transactionHash;
+}
+
+/**
+ * Let another address decrypt the message of a token owned by the connected account
+ * The grant is permanent for the current ciphertext, the contract offers no revoke.
+ */
+export async function grantViewer(tokenId: bigint, viewer: Address, options: WriteOptions = {}): Promise<GrantViewerResult> {
+  requireCurrentContract('Sharing');
+  await ensureActiveChain();
+  const { walletClient, account } = await getWalletClient();
+
+  const txHash = await walletClient.writeContract({
+    account,
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'grantViewer',
+    args: [tokenId, viewer],
+  });
+  trackTransaction({ hash: txHash, kind: 'share', from: account, nonce: await submittedNonce(txHash), tokenId, params: { viewer } });
+  options.onSubmitted?.(txHash);
+
+  const receipt = await waitForReceipt(txHash);
+  if (receipt.status !== 'success') {
+    throw new Error(`Sharing NFT #${tokenId} failed in transaction ${receipt.transactionHash}`);
+  }
+
+  return { tokenId, viewer, txHash: receipt.transactionHash, blockNumber: receipt.blockNumber };
+}
+
+/**
+ * Compare an attribute of a token with a public operand without revealing the attribute
+ * @param operand Integer, 0/1 for booleans or an address as uint256 (see toPublicOperand)
+ */
+export async function proveAttribute(
+  params: ProveAttributeParams & { operand: bigint },
+  options: WriteOptions = {}
+): Promise<ProofResult> {
+  requireCurrentContract('Condition proofs');
+  await ensureActiveChain();
+  const { walletClient, account } = await getWalletClient();
+
+  const txHash = await walletClient.writeContract({
+    account,
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'proveAttribute',
+    args: [params.tokenId, params.key, COMPARISONS.indexOf(params.op), params.operand, params.publicResult],
+  });
+  trackTransaction({
+    hash: txHash,
+    kind: 'proof',
+    from: account,
+    nonce: await submittedNonce(txHash),
+    tokenId: params.tokenId,
+    params: { subject: params.key, op: params.op, operand: params.operand.toString() },
+  });
+  options.onSubmitted?.(txHash);
+
+  const receipt = await waitForReceipt(txHash);
+  if (receipt.status !== 'success') {
+    throw new Error(`Checking NFT #${params.tokenId} failed in transaction ${receipt.transactionHash}`);
+  }
+  return proofFromReceipt(receipt, params.tokenId);
+}
+
+/**
+ * Compare an attribute of a token with an encrypted operand, keeping both hidden
+ */
+export async function proveAttributeEncrypted(
+  params: ProveAttributeParams & { encryptedOperand: Hex; inputProof: Hex },
+  options: WriteOptions = {}
+): Promise<ProofResult> {
+  requireCurrentContract('Condition proofs');
+  await ensureActiveChain();
+  const { walletClient, account } = await getWalletClient();
+
+  const txHash = await walletClient.writeContract({
+    account,
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'proveAttributeEncrypted',
+    args: [
+      params.tokenId,
+      params.key,
+      COMPARISONS.indexOf(params.op),
+      params.encryptedOperand,
+      params.inputProof,
+      params.publicResult,
+    ],
+  });
+  trackTransaction({
+    hash: txHash,
+    kind: 'proof',
+    from: account,
+    nonce: await submittedNonce(txHash),
+    tokenId: params.tokenId,
+    params: { subject: params.key, op: params.op },
+  });
+  options.onSubmitted?.(txHash);
+
+  const receipt = await waitForReceipt(txHash);
+  if (receipt.status !== 'success') {
+    throw new Error(`Checking NFT #${params.tokenId} failed in transaction ${receipt.transactionHash}`);
+  }
+  return proofFromReceipt(receipt, params.tokenId);
+}
+
+/**
+ * Check whether the message of a token equals an encrypted candidate message
+ */
+export async function proveMessageEquals(params: ProveMessageParams, options: WriteOptions = {}): Promise<ProofResult> {
+  requireCurrentContract('Condition proofs');
+  await ensureActiveChain();
+  const { walletClient, account } = await getWalletClient();
+
+  const txHash = await walletClient.writeContract({
+    account,
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'proveMessageEquals',
+    args: [params.tokenId, params.encryptedChunks, params.inputProof, params.publicResult],
+  });
+  trackTransaction({ hash: txHash, kind: 'proof', from: account, nonce: await submittedNonce(txHash), tokenId: params.tokenId, params: { op: 'eq' } });
+  options.onSubmitted?.(txHash);
+
+  const receipt = await waitForReceipt(txHash);
+  if (receipt.status !== 'success') {
+    throw new Error(`Checking NFT #${params.tokenId} failed in transaction ${receipt.transactionHash}`);
+  }
+  return proofFromReceipt(receipt, params.tokenId);
+}
+
+/**
+ * Read a recorded condition proof and the transaction that requested it
+ */
+export async function getProof(proofId: bigint): Promise<ConditionProof> {
+  requireCurrentContract('Condition proofs');
+  const client = getReadClient();
+  const proof = await client.readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'getProof',
+    args: [proofId],
+  });
+
+  // The proof records its block, so the event lookup stays within a single block
+  const [event] = await client.getContractEvents({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    eventName: 'ConditionProven',
+    args: { proofId },
+    fromBlock: proof.blockNumber,
+    toBlock: proof.blockNumber,
+  });
+  return toConditionProof(proofId, event?.transactionHash ?? null, proof);
+}
+
+/**
+ * List token ids owned by an address
+ */
+export async function listOwned(owner: Address): Promise<readonly bigint[]> {
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'tokensOfOwner',
+    args: [owner],
+  });
+}
+
+/**
+ * Read the image URI stored for a token
+ */
+export async function getImageUri(tokenId: bigint): Promise<string> {
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'getTokenImageURI',
+    args: [tokenId],
+  });
+}
+
+/**
+ * Read the encrypted message handles (one per chunk) stored for a token
+ * Legacy contracts store a single handle, zero when the token has no message.
+ */
+export async function getEncryptedHandle(tokenId: bigint): Promise<readonly Hex[]> {
+  if (isLegacyDeployment()) {
+    const handle = await getReadClient().readContract({
+      address: getContractAddress(),
+      abi: LEGACY_CONTRACT_ABI,
+      functionName: 'getEncryptedMessage',
+      args: [tokenId],
+    });
+    return handle === zeroHash ? [] : [handle];
+  }
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'getEncryptedMessageChunks',
+    args: [tokenId],
+  });
+}
+
+/**
+ * Whether a token's current message is publicly decryptable
+ */
+export async function isMessagePublic(tokenId: bigint): Promise<boolean> {
+  if (isLegacyDeployment()) {
+    return false;
+  }
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'isMessagePublic',
+    args: [tokenId],
+  });
+}
+
+/**
+ * Check the KMS signatures of a public decryption of a token's message against its current chunks
+ * Simulated, nothing is sent: the contract reverts when the signatures do not match.
+ */
+export async function checkRevealedMessage(tokenId: bigint, abiEncodedCleartexts: Hex, decryptionProof: Hex): Promise<boolean> {
+  const { result } = await getReadClient().simulateContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'checkRevealedMessage',
+    args: [tokenId, abiEncodedCleartexts, decryptionProof],
+  });
+  return result;
+}
+
+/**
+ * Check the KMS signatures of a public decryption of a proof's outcome against its result handle
+ * Simulated like checkRevealedMessage: the contract reverts when the signatures do not match.
+ */
+export async function checkProofResult(proofId: bigint, abiEncodedCleartexts: Hex, decryptionProof: Hex): Promise<boolean> {
+  const { result } = await getReadClient().simulateContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'checkProofResult',
+    args: [proofId, abiEncodedCleartexts, decryptionProof],
+  });
+  return result;
+}
+
+/**
+ * Addresses a token's owners granted read access to, in grant order
+ */
+export async function getViewers(tokenId: bigint): Promise<readonly Address[]> {
+  if (isLegacyDeployment()) {
+    return [];
+  }
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'getViewers',
+    args: [tokenId],
+  });
+}
+
+/**
+ * Token ids an address was granted read access to, including ones it has since come to own
+ */
+export async function listSharedWith(viewer: Address): Promise<readonly bigint[]> {
+  if (isLegacyDeployment()) {
+    return [];
+  }
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'tokensSharedWith',
+    args: [viewer],
+  });
+}
+
+/**
+ * Attributes every token of the collection carries, in mint order
+ */
+export async function getAttributeSchema(): Promise<AttributeDefinition[]> {
+  if (isLegacyDeployment()) {
+    return [];
+  }
+  const schema = await getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'getAttributeSchema',
+  });
+  return schema.map(toAttributeDefinition);
+}
+
+/**
+ * Read the encrypted handle of one attribute of a token
+ * @throws If the token was minted without that attribute
+ */
+export async function getEncryptedAttribute(tokenId: bigint, key: Hex): Promise<Hex> {
+  requireCurrentContract('Attributes');
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'getEncryptedAttribute',
+    args: [tokenId, key],
+  });
+}
+
+/**
+ * Account allowed to change the collection schema
+ */
+export async function getCollectionOwner(): Promise<Address> {
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'owner',
+  });
+}
+
+/**
+ * Number of tokens in the collection
+ */
+export async function totalSupply(): Promise<bigint> {
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'totalSupply',
+  });
+}
+
+/**
+ * Token id at a position of the collection-wide enumeration
+ */
+export async function tokenByIndex(index: bigint): Promise<bigint> {
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'tokenByIndex',
+    args: [index],
+  });
+}
+
+/**
+ * Current owner of a token
+ * @throws If the token does not exist
+ */
+export async function ownerOf(tokenId: bigint): Promise<Address> {
+  return getReadClient().readContract({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    functionName: 'ownerOf',
+    args: [tokenId],
+  });
+}
+
+/**
+ * Owner, image and encrypted message size of a token
+ * @throws If the token does not exist
+ */
+export async function getTokenSummary(tokenId: bigint): Promise<TokenSummary> {
+  const [owner, imageUri, handles, messagePublic] = await Promise.all([
+    ownerOf(tokenId),
+    getImageUri(tokenId),
+    getEncryptedHandle(tokenId),
+    isMessagePublic(tokenId),
+  ]);
+  return { tokenId, owner, imageUri, encryptedChunks: handles.length, messagePublic };
+}
+
+/**
+ * Latest block number of the active chain
+ */
+export async function getBlockNumber(): Promise<bigint> {
+  return getReadClient().getBlockNumber({ cacheTime: 0 });
+}
+
+/**
+ * Transfers from or to an account within a block range, oldest first
+ */
+export async function getTransferLogs(account: Address, fromBlock: bigint, toBlock: bigint): Promise<TransferLog[]> {
+  const client = getReadClient();
+  const query = (args: { from: Address } | { to: Address }) => client.getContractEvents({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    eventName: 'Transfer',
+    args,
+    fromBlock,
+    toBlock,
+    strict: true,
+  });
+
+  // Indexed topics cannot be OR-ed across positions, hence one query per direction
+  const [sent, received] = await Promise.all([query({ from: account }), query({ to: account })]);
+  const unique = new Map<string, TransferLog>();
+  for (const log of [...sent, ...received]) {
+    unique.set(`${log.transactionHash}:${log.logIndex}`, {
+      tokenId: log.args.tokenId,
+      from: log.args.from,
+      to: log.args.to,
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+    });
+  }
+  return [...unique.values()].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : Number(a.blockNumber - b.blockNumber)
+  );
+}
+
+/** A Transfer, Approval, ApprovalForAll, ViewerGranted or MessageUpdated event of the contract */
+export type ActivityLog = {
+  txHash: Hex;
+  blockNumber: bigint;
+  logIndex: number;
+} & (
+  | { kind: 'Transfer'; from: Address; to: Address; tokenId: bigint }
+  | { kind: 'Approval'; owner: Address; approved: Address; tokenId: bigint }
+  | { kind: 'ApprovalForAll'; owner: Address; operator: Address; approved: boolean }
+  | { kind: 'ViewerGranted'; tokenId: bigint; owner: Address; viewer: Address }
+  | { kind: 'MessageUpdated'; tokenId: bigint; owner: Address }
+  | { kind: 'MessageRevealed'; tokenId: bigint; owner: Address }
+);
+
+/**
+ * Ownership, approval and sharing events of the contract within a block range, oldest first
+ */
+export async function getActivityLogs(fromBlock: bigint, toBlock: bigint): Promise<ActivityLog[]> {
+  const logs = await getReadClient().getContractEvents({
+    address: getContractAddress(),
+    abi: CONTRACT_ABI,
+    fromBlock,
+    toBlock,
+    strict: true,
+  });
+
+  const activity: ActivityLog[] = [];
+  for (const log of logs) {
+    const base = { txHash: log.transactionHash, blockNumber: log.blockNumber, logIndex: log.logIndex };
+    switch (log.eventName) {
+      case 'Transfer':
+        activity.push({ ...base, kind: 'Transfer', ...log.args });
+        break;
+      case 'Approval':
+        activity.push({ ...base, kind: 'Approval', ...log.args });
+        break;
+      case 'ApprovalForAll':
+        activity.push({ ...base, kind: 'ApprovalForAll', ...log.args });
+        break;
+      case 'ViewerGranted':
+        activity.push({ ...base, kind: 'ViewerGranted', ...log.args });
+        break;
+      case 'MessageUpdated':
+        activity.push({ ...base, kind: 'MessageUpdated', ...log.args });
+        break;
+      case 'MessageRevealed':
+        activity.push({ ...base, kind: 'MessageRevealed', ...log.args });
+        break;
+    }
+  }
+  return activity;
+}
+
+/**
+ * Timestamps (unix seconds) of blocks, keyed by block number
+ */
+export async function getBlockTimestamps(blockNumbers: bigint[]): Promise<Map<bigint, number>> {
+  const client = getReadClient();
+  const unique = [...new Set(blockNumbers)];
+  const blocks = await Promise.all(unique.map(blockNumber => client.getBlock({ blockNumber })));
+  return new Map(blocks.map(block => [block.number, Number(block.timestamp)]));
+}
+
+/**
+ * Whether the contract has code at a block (used to find its deployment block)
+ */
+export async function isDeployedAt(blockNumber: bigint): Promise<boolean> {
+  const code = await getReadClient().getCode({ address: getContractAddress(), blockNumber });
+  return code !== undefined && code !== '0x';
+}
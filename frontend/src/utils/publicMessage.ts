@@ -0,0 +1,54 @@
+import { decode } from './messageCodec';
+import { publicDecrypt } from './fheEncryption';
+import { checkRevealedMessage, getEncryptedHandle } from './nftService';
+import { getActiveDeployment } from './activeDeployment';
+
+/**
+ * Messages their owner revealed publicly
+ * Anyone can decrypt them through the relayer's public decryption, without a signature or
+ * wallet. On relayer networks the KMS signatures returned with the plaintext are checked
+ * against the token's current chunks by the contract before the message is shown.
+ */
+
+export interface PublicMessage {
+  message: string;
+  /** Whether the decryption proof was checked on-chain (never in mock mode, which has none) */
+  verified: boolean;
+}
+
+/**
+ * Thrown when the contract rejects the decryption proof of a revealed message
+ */
+export class UnverifiedRevealError extends Error {
+  constructor(tokenId: bigint, cause?: unknown) {
+    super(`The decryption of NFT #${tokenId}'s message could not be verified on-chain`, { cause });
+    this.name = 'UnverifiedRevealError';
+  }
+}
+
+/**
+ * Decrypt and decode the publicly revealed message of a token
+ * @throws NotPubliclyDecryptableError when the owner has not revealed the current message
+ * @throws UnverifiedRevealError when the relayer's answer does not match the on-chain ciphertext
+ */
+export async function readPublicMessage(tokenId: bigint): Promise<PublicMessage> {
+  const handles = await getEncryptedHandle(tokenId);
+  const { values, abiEncodedClearValues, decryptionProof } = await publicDecrypt([...handles]);
+
+  let verified = false;
+  if (getActiveDeployment().network.fhe.mode === 'relayer') {
+    try {
+      verified = await checkRevealedMessage(tokenId, abiEncodedClearValues, decryptionProof);
+    } catch (error) {
+      throw new UnverifiedRevealError(tokenId, error);
+    }
+    if (!verified) {
+      throw new UnverifiedRevealError(tokenId);
+    }
+  }
+
+  if (!values.every(value => typeof value === 'bigint')) {
+    throw new Error(`Public decryption of NFT #${tokenId} returned a non-integer message chunk`);
+  }
+  return { message: decode(values as bigint[]), verified };
+}
@@ -0,0 +1,49 @@
+import { publicDecrypt } from './fheEncryption';
+import { checkProofResult } from './nftService';
+import { getActiveDeployment } from './activeDeployment';
+import type { ConditionProof } from './conditionProof';
+
+/**
+ * Outcomes of condition proofs requested with a public result
+ * Decrypted like revealed messages, through the relayer's public decryption, and checked
+ * against the proof's result handle by the contract on relayer networks.
+ */
+
+export interface PublicProofResult {
+  outcome: boolean;
+  /** Whether the decryption proof was checked on-chain (never in mock mode, which has none) */
+  verified: boolean;
+}
+
+/**
+ * Thrown when the contract rejects the decryption proof of a proof's outcome
+ */
+export class UnverifiedProofError extends Error {
+  constructor(proofId: bigint, cause?: unknown) {
+    super(`The outcome of proof #${proofId} could not be verified on-chain`, { cause });
+    this.name = 'UnverifiedProofError';
+  }
+}
+
+/**
+ * Decrypt the public outcome of a proof
+ * @throws NotPubliclyDecryptableError when the proof was requested with a private result
+ * @throws UnverifiedProofError when the relayer's answer does not match the on-chain result
+ */
+export async function readPublicProofResult(proof: ConditionProof): Promise<PublicProofResult> {
+  const { values: [value], abiEncodedClearValues, decryptionProof } = await publicDecrypt([proof.result]);
+
+  let verified = false;
+  if (getActiveDeployment().network.fhe.mode === 'relayer') {
+    try {
+      verified = await checkProofResult(proof.proofId, abiEncodedClearValues, decryptionProof);
+    } catch (error) {
+      throw new UnverifiedProofError(proof.proofId, error);
+    }
+    if (!verified) {
+      throw new UnverifiedProofError(proof.proofId);
+    }
+  }
+
+  return { outcome: value === true, verified };
+}
@@ -0,0 +1,55 @@
+import { createPublicClient, custom, http, type Chain, type EIP1193Provider, type PublicClient } from 'viem';
+import { getActiveDeployment } from './activeDeployment';
+import { getActiveChainProvider } from './walletConnection';
+
+/**
+ * Client for contract reads
+ * Reads go through the connected wallet when it is on the active deployment's chain and
+ * through the network's JSON-RPC URL otherwise, so tokens can be browsed without a wallet.
+ * Reads issued in the same tick are aggregated into one Multicall3 call where the chain has it.
+ */
+
+const rpcClients = new Map<string, PublicClient>();
+// One client per wallet provider and deployment: viem only batches calls made on the same client
+const walletClients = new WeakMap<EIP1193Provider, Map<string, PublicClient>>();
+
+// Local nodes usually have no Multicall3 deployed, viem would refuse to batch there
+function batchOptions(chain: Chain) {
+  return chain.contracts?.multicall3 ? { multicall: true } : undefined;
+}
+
+function getRpcClient(): PublicClient {
+  const { key, network } = getActiveDeployment();
+  let client = rpcClients.get(key);
+  if (!client) {
+    client = createPublicClient({
+      chain: network.chain,
+      transport: http(network.rpcUrl, { batch: true }),
+      batch: batchOptions(network.chain),
+    });
+    rpcClients.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * Public client for the active deployment's chain
+ */
+export function getReadClient(): PublicClient {
+  const provider = getActiveChainProvider();
+  if (!provider) {
+    return getRpcClient();
+  }
+  const { key, network } = getActiveDeployment();
+  let clients = walletClients.get(provider);
+  if (!clients) {
+    clients = new Map();
+    walletClients.set(provider, clients);
+  }
+  let client = clients.get(key);
+  if (!client) {
+    client = createPublicClient({ chain: network.chain, transport: custom(provider), batch: batchOptions(network.chain) });
+    clients.set(key, client);
+  }
+  return client;
+}
@@ -0,0 +1,106 @@
+import { getAddress, isAddress, type Address } from 'viem';
+
+/**
+ * Minimal History API router
+ * Paths are shareable; netlify.toml rewrites every path to index.html.
+ */
+
+export type TabRoute =
+  | { name: 'mint' }
+  | { name: 'transfer' }
+  | { name: 'gallery' }
+  | { name: 'shared' }
+  | { name: 'explore' }
+  | { name: 'verify' };
+
+export type Route =
+  | TabRoute
+  | { name: 'token'; tokenId: bigint }
+  | { name: 'address'; address: Address }
+  | { name: 'proof'; proofId: bigint }
+  | { name: 'notFound' };
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+window.addEventListener('popstate', () => listeners.forEach(listener => listener()));
+
+/**
+ * Parse a pathname into a route
+ */
+export function parseRoute(pathname: string): Route {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed percent-encoding in a shared link, e.g. /token/%E0
+    return { name: 'notFound' };
+  }
+
+  if (segments.length === 0) {
+    return { name: 'mint' };
+  }
+  if (segments.length === 1 && ['mint', 'transfer', 'gallery', 'shared', 'explore', 'verify'].includes(segments[0])) {
+    return { name: segments[0] } as TabRoute;
+  }
+  if (segments.length === 2 && segments[0] === 'token' && /^\d+$/.test(segments[1])) {
+    return { name: 'token', tokenId: BigInt(segments[1]) };
+  }
+  if (segments.length === 2 && segments[0] === 'verify' && /^\d+$/.test(segments[1])) {
+    return { name: 'proof', proofId: BigInt(segments[1]) };
+  }
+  if (segments.length === 2 && segments[0] === 'address' && isAddress(segments[1])) {
+    return { name: 'address', address: getAddress(segments[1]) };
+  }
+  return { name: 'notFound' };
+}
+
+/**
+ * Build the path of a route
+ */
+export function routePath(route: Route): string {
+  switch (route.name) {
+    case 'mint':
+      return '/';
+    case 'token':
+      return `/token/${route.tokenId}`;
+    case 'address':
+      return `/address/${route.address}`;
+    case 'proof':
+      return `/verify/${route.proofId}`;
+    case 'notFound':
+      return '/';
+    default:
+      return `/${route.name}`;
+  }
+}
+
+export function getPathname(): string {
+  return window.location.pathname;
+}
+
+/**
+ * Go to a path (or route) without reloading the page
+ */
+export function navigate(to: string | Route, options: { replace?: boolean } = {}): void {
+  const path = typeof to === 'string' ? to : routePath(to);
+  if (path === getPathname()) {
+    return;
+  }
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Be notified when the path changes, through navigate or the browser's back/forward buttons
+ * @returns Function that unsubscribes
+ */
+export function subscribeRoute(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,239 @@
+import axios from 'axios';
+
+/**
+ * Pluggable storage backends used for NFT images and metadata
+ */
+
+export interface StorageUploadResult {
+  uri: string;
+  previewUrl: string;
+}
+
+export interface StorageProvider {
+  /** Human readable provider name for logs and UI */
+  readonly name: string;
+  /** Largest file the provider accepts, in bytes */
+  readonly maxFileSize: number;
+  /** Store a file and return its canonical URI plus an HTTP URL for previews */
+  upload(file: File): Promise<StorageUploadResult>;
+  /** Map a stored URI (ipfs://, data:, https://) to something an <img> can load */
+  resolve(uri: string): string;
+  /** Check that the backend is reachable and credentials are valid */
+  healthCheck(): Promise<boolean>;
+}
+
+export type StorageProviderKind = 'pinata' | 'kubo' | 'data-uri';
+
+const DEFAULT_IPFS_GATEWAY = 'https://gateway.pinata.cloud';
+
+/**
+ * Convert an ipfs:// URI to a path-style gateway URL, leaving other URIs untouched
+ */
+export function resolveIpfsUri(uri: string, gateway: string): string {
+  if (uri.startsWith('ipfs://')) {
+    const path = uri.replace('ipfs://', '');
+    return `${gateway.replace(/\/$/, '')}/ipfs/${path}`;
+  }
+  return uri;
+}
+
+type PinataAuth =
+  | { jwt: string }
+  | { apiKey: string; apiSecret: string };
+
+/**
+ * Pinata pinning service, authenticated with a JWT or legacy key/secret pair
+ */
+export class PinataStorageProvider implements StorageProvider {
+  readonly name: string;
+  readonly maxFileSize = 10 * 1024 * 1024;
+
+  private readonly auth: PinataAuth;
+  private readonly gateway: string;
+
+  constructor(auth: PinataAuth, gateway: string = DEFAULT_IPFS_GATEWAY) {
+    this.auth = auth;
+    this.gateway = gateway;
+    this.name = 'jwt' in auth ? 'Pinata (JWT)' : 'Pinata (API key)';
+  }
+
+  private get headers(): Record<string, string> {
+    if ('jwt' in this.auth) {
+      return { Authorization: `Bearer ${this.auth.jwt}` };
+    }
+    return {
+      pinata_api_key: this.auth.apiKey,
+      pinata_secret_api_key: this.auth.apiSecret,
+    };
+  }
+
+  async upload(file: File): Promise<StorageUploadResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('pinataMetadata', JSON.stringify({ name: file.name }));
+
+    const response = await axios.post('https://api.pinata.cloud/pinning/pinFileToIPFS', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+        ...this.headers,
+      },
+    });
+
+    const uri = `ipfs://${response.data.IpfsHash}`;
+    return { uri, previewUrl: this.resolve(uri) };
+  }
+
+  resolve(uri: string): string {
+    return resolveIpfsUri(uri, this.gateway);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await axios.get('https://api.pinata.cloud/data/testAuthentication', { headers: this.headers });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Self-hosted IPFS node exposing the Kubo HTTP RPC API
+ */
+export class KuboStorageProvider implements StorageProvider {
+  readonly name = 'IPFS node (Kubo)';
+  readonly maxFileSize = 10 * 1024 * 1024;
+
+  private readonly apiUrl: string;
+  private readonly gateway: string;
+
+  constructor(apiUrl: string, gateway: string) {
+    this.apiUrl = apiUrl.replace(/\/$/, '');
+    this.gateway = gateway;
+  }
+
+  async upload(file: File): Promise<StorageUploadResult> {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+
+    const response = await axios.post(`${this.apiUrl}/api/v0/add`, formData, {
+      params: { pin: true, 'cid-version': 1 },
+    });
+
+    const uri = `ipfs://${response.data.Hash}`;
+    return { uri, previewUrl: this.resolve(uri) };
+  }
+
+  resolve(uri: string): string {
+    return resolveIpfsUri(uri, this.gateway);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      // The Kubo RPC API only accepts POST
+      await axios.post(`${this.apiUrl}/api/v0/version`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Inline base64 data URIs stored directly on-chain
+ * WARNING: On-chain storage is expensive, keep files small
+ */
+export class DataUriStorageProvider implements StorageProvider {
+  readonly name = 'On-chain data URI';
+  readonly maxFileSize = 100 * 1024;
+
+  private readonly gateway: string;
+
+  constructor(gateway: string = DEFAULT_IPFS_GATEWAY) {
+    this.gateway = gateway;
+  }
+
+  upload(file: File): Promise<StorageUploadResult> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        const dataUri = reader.result as string;
+        resolve({ uri: dataUri, previewUrl: dataUri });
+      };
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsDataURL(file);
+    });
+  }
+
+  resolve(uri: string): string {
+    // Tokens minted through another provider may still carry ipfs:// URIs
+    return resolveIpfsUri(uri, this.gateway);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Create a provider of the given kind from environment configuration
+ * @throws If the provider is unknown or missing its configuration
+ */
+export function createStorageProvider(kind: StorageProviderKind): StorageProvider {
+  const env = import.meta.env;
+  const gateway = env.VITE_PINATA_GATEWAY || DEFAULT_IPFS_GATEWAY;
+
+  switch (kind) {
+    case 'pinata':
+      if (env.VITE_PINATA_JWT) {
+        return new PinataStorageProvider({ jwt: env.VITE_PINATA_JWT }, gateway);
+      }
+      if (env.VITE_PINATA_API_KEY && env.VITE_PINATA_API_SECRET) {
+        return new PinataStorageProvider(
+          { apiKey: env.VITE_PINATA_API_KEY, apiSecret: env.VITE_PINATA_API_SECRET },
+          gateway
+        );
+      }
+      throw new Error('Pinata selected but neither VITE_PINATA_JWT nor VITE_PINATA_API_KEY/SECRET is set');
+    case 'kubo':
+      if (!env.VITE_KUBO_API_URL) {
+        throw new Error('Kubo selected but VITE_KUBO_API_URL is not set');
+      }
+      return new KuboStorageProvider(env.VITE_KUBO_API_URL, env.VITE_KUBO_GATEWAY || 'http://127.0.0.1:8080');
+    case 'data-uri':
+      return new DataUriStorageProvider(gateway);
+    default:
+      // VITE_STORAGE_PROVIDER is only typed, nothing checks the value at build time
+      throw new Error(`Unknown storage provider "${kind as string}", expected pinata, kubo or data-uri`);
+  }
+}
+
+let activeProvider: StorageProvider | null = null;
+
+/**
+ * Return the configured storage provider
+ * Uses VITE_STORAGE_PROVIDER when set, otherwise the first fully configured backend:
+ * Pinata (a JWT, or both API key and secret), then Kubo, then data URIs.
+ */
+export function getStorageProvider(): StorageProvider {
+  if (activeProvider) {
+    return activeProvider;
+  }
+
+  const env = import.meta.env;
+
+  let kind: StorageProviderKind;
+  if (env.VITE_STORAGE_PROVIDER) {
+    kind = env.VITE_STORAGE_PROVIDER;
+  } else if (env.VITE_PINATA_JWT || (env.VITE_PINATA_API_KEY && env.VITE_PINATA_API_SECRET)) {
+    kind = 'pinata';
+  } else if (env.VITE_KUBO_API_URL) {
+    kind = 'kubo';
+  } else {
+    kind = 'data-uri';
+  }
+
+  activeProvider = createStorageProvider(kind);
+  console.log('🗄️ Storage provider:', activeProvider.name);
+  return activeProvider;
+}
@@ -0,0 +1,61 @@
+import type { Address } from 'viem';
+import { getActiveDeployment } from './activeDeployment';
+import { getBlockNumber, getTransferLogs, type TransferLog } from './nftService';
+
+/**
+ * Poll the chain for Transfer events from or to an account
+ * Only blocks buried under the network's confirmation depth are scanned, so a reorg
+ * cannot retract an event that was already reported. Every open tab polls on its own
+ * and converges on the same chain state.
+ */
+
+// Keeps each eth_getLogs request within common provider limits
+const MAX_BLOCK_RANGE = 2_000n;
+
+export type TransferListener = (transfers: TransferLog[]) => void;
+
+/**
+ * Start watching; events before the current confirmed block are not reported
+ * @returns Function that stops the watcher
+ */
+export function watchTransfers(account: Address, onTransfers: TransferListener): () => void {
+  const { confirmations, pollIntervalMs } = getActiveDeployment().network;
+  let lastScanned: bigint | null = null;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async () => {
+    try {
+      const safeBlock = (await getBlockNumber()) - BigInt(confirmations);
+      if (lastScanned === null) {
+        lastScanned = safeBlock;
+      }
+
+      while (!stopped && lastScanned < safeBlock) {
+        const fromBlock: bigint = lastScanned + 1n;
+        const toBlock = fromBlock + MAX_BLOCK_RANGE - 1n < safeBlock ? fromBlock + MAX_BLOCK_RANGE - 1n : safeBlock;
+        const transfers = await getTransferLogs(account, fromBlock, toBlock);
+        if (stopped) return;
+
+        lastScanned = toBlock;
+        if (transfers.length > 0) {
+          onTransfers(transfers);
+        }
+      }
+    } catch (error) {
+      // Retried on the next tick from the last fully scanned block
+      console.warn('⚠️ Transfer polling failed:', error);
+    } finally {
+      if (!stopped) {
+        timer = setTimeout(poll, pollIntervalMs);
+      }
+    }
+  };
+
+  poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
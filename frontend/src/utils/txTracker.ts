@@ -0,0 +1,247 @@
+import {
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Address,
+  type Hex,
+} from 'viem';
+import { getActiveDeployment } from './activeDeployment';
+import { getReadClient } from './readClient';
+
+/**
+ * Persistent record of the transactions the app submitted
+ *
+ * Entries survive reloads (localStorage) and are monitored until they are buried under
+ * the network's confirmation depth, fail, or turn out replaced (sped up / cancelled in the
+ * wallet) or dropped. Replacement is detected by the sender's nonce moving past the
+ * transaction's nonce without it being mined.
+ */
+
+export type TxKind = 'mint' | 'transfer' | 'share' | 'update' | 'schema' | 'proof' | 'reveal';
+
+export type TxStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'dropped';
+
+export interface TrackedTransaction {
+  hash: Hex;
+  kind: TxKind;
+  /** Deployment key the transaction was sent to */
+  deployment: string;
+  from: Address;
+  /** Read from the wallet at submission; null when it could not tell, then learned from the node */
+  nonce: number | null;
+  tokenId: string | null;
+  /** Human readable call parameters, e.g. the recipient of a transfer */
+  params: Record<string, string>;
+  status: TxStatus;
+  confirmations: number;
+  blockNumber: string | null;
+  /** Hash of the transaction that took this one's nonce */
+  replacedBy: Hex | null;
+  submittedAt: number;
+  updatedAt: number;
+}
+
+const STORAGE_KEY = 'tracked_transactions';
+const MAX_ENTRIES = 50;
+const POLL_INTERVAL_MS = 4_000;
+// A transaction the node never reports and whose nonce is never used is given up on after this
+const DROPPED_AFTER_MS = 30 * 60 * 1000;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+function load(): TrackedTransaction[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+let transactions: TrackedTransaction[] = load();
+
+function commit(next: TrackedTransaction[]): void {
+  transactions = next.slice(0, MAX_ENTRIES);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  listeners.forEach(listener => listener());
+}
+
+function update(hash: Hex, changes: Partial<TrackedTransaction>): void {
+  commit(transactions.map(tx => (tx.hash === hash ? { ...tx, ...changes, updatedAt: Date.now() } : tx)));
+}
+
+// Other tabs write the same key; follow them so every tab shows one list
+window.addEventListener('storage', event => {
+  if (event.key === STORAGE_KEY) {
+    transactions = load();
+    listeners.forEach(listener => listener());
+  }
+});
+
+export function getTransactions(): TrackedTransaction[] {
+  return transactions;
+}
+
+/**
+ * Be notified when any tracked transaction changes
+ * @returns Function that unsubscribes
+ */
+export function subscribeTransactions(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Start tracking a transaction the wallet has just broadcast
+ */
+export function trackTransaction(entry: {
+  hash: Hex;
+  kind: TxKind;
+  from: Address;
+  nonce: number | null;
+  tokenId?: bigint;
+  params?: Record<string, string>;
+}): void {
+  const now = Date.now();
+  commit([
+    {
+      hash: entry.hash,
+      kind: entry.kind,
+      deployment: getActiveDeployment().key,
+      from: entry.from,
+      nonce: entry.nonce,
+      tokenId: entry.tokenId?.toString() ?? null,
+      params: entry.params ?? {},
+      status: 'pending',
+      confirmations: 0,
+      blockNumber: null,
+      replacedBy: null,
+      submittedAt: now,
+      updatedAt: now,
+    },
+    ...transactions.filter(tx => tx.hash !== entry.hash),
+  ]);
+  ensureMonitor();
+}
+
+/**
+ * Record that the wallet replaced a transaction (speed up or cancel) and track the new one
+ */
+export function markReplaced(hash: Hex, replacementHash: Hex, cancelled: boolean): void {
+  const original = transactions.find(tx => tx.hash === hash);
+  update(hash, { status: 'replaced', replacedBy: replacementHash });
+  if (original && !cancelled) {
+    trackTransaction({
+      hash: replacementHash,
+      kind: original.kind,
+      from: original.from,
+      // A replacement reuses the nonce by definition
+      nonce: original.nonce,
+      tokenId: original.tokenId !== null ? BigInt(original.tokenId) : undefined,
+      params: original.params,
+    });
+  }
+}
+
+/**
+ * Attach the token a transaction turned out to affect, e.g. the id assigned by a mint
+ */
+export function setTransactionToken(hash: Hex, tokenId: bigint): void {
+  update(hash, { tokenId: tokenId.toString() });
+}
+
+/**
+ * Forget finished transactions of the active deployment
+ */
+export function clearFinished(): void {
+  const { key } = getActiveDeployment();
+  commit(transactions.filter(tx => tx.deployment !== key || isMonitored(tx)));
+}
+
+/**
+ * Whether a transaction still needs polling (pending, or not yet at the confirmation depth)
+ */
+export function isMonitored(tx: TrackedTransaction): boolean {
+  const { confirmations } = getActiveDeployment().network;
+  return tx.status === 'pending' || (tx.status === 'confirmed' && tx.confirmations < Math.max(confirmations, 1));
+}
+
+function unlessNotFound(error: unknown): null {
+  if (error instanceof TransactionReceiptNotFoundError || error instanceof TransactionNotFoundError) {
+    return null;
+  }
+  throw error;
+}
+
+async function refresh(tx: TrackedTransaction, latestBlock: bigint): Promise<void> {
+  const client = getReadClient();
+
+  const receipt = await client.getTransactionReceipt({ hash: tx.hash }).catch(unlessNotFound);
+  if (receipt) {
+    update(tx.hash, {
+      status: receipt.status === 'success' ? 'confirmed' : 'failed',
+      confirmations: Number(latestBlock - receipt.blockNumber + 1n),
+      blockNumber: receipt.blockNumber.toString(),
+    });
+    return;
+  }
+
+  if (tx.status !== 'pending') {
+    // The receipt disappeared again: its block was reorged out
+    update(tx.hash, { status: 'pending', confirmations: 0, blockNumber: null });
+    return;
+  }
+
+  const pending = await client.getTransaction({ hash: tx.hash }).catch(unlessNotFound);
+  if (pending) {
+    if (tx.nonce === null) {
+      update(tx.hash, { nonce: pending.nonce });
+    }
+    return;
+  }
+
+  if (tx.nonce !== null) {
+    const minedNonce = await client.getTransactionCount({ address: tx.from, blockTag: 'latest' });
+    if (minedNonce > tx.nonce) {
+      // Another transaction with the same nonce was mined instead
+      update(tx.hash, { status: 'replaced' });
+      return;
+    }
+  }
+
+  if (Date.now() - tx.submittedAt > DROPPED_AFTER_MS) {
+    update(tx.hash, { status: 'dropped' });
+  }
+}
+
+let monitorTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function poll(): Promise<void> {
+  monitorTimer = null;
+  const { key } = getActiveDeployment();
+  // Transactions of other deployments resume once their deployment is active again
+  const due = transactions.filter(tx => tx.deployment === key && isMonitored(tx));
+  if (due.length === 0) {
+    return;
+  }
+
+  try {
+    const latestBlock = await getReadClient().getBlockNumber({ cacheTime: 0 });
+    for (const tx of due) {
+      await refresh(tx, latestBlock);
+    }
+  } catch (error) {
+    console.warn('⚠️ Transaction polling failed:', error);
+  }
+  ensureMonitor();
+}
+
+/**
+ * Poll tracked transactions of the active deployment until none needs it
+ * Safe to call repeatedly, e.g. on startup to resume after a reload.
+ */
+export function ensureMonitor(): void {
+  if (monitorTimer === null) {
+    monitorTimer = setTimeout(poll, POLL_INTERVAL_MS);
+  }
+}
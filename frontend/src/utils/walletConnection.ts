@@ -0,0 +1,136 @@
+import { BrowserProvider, type JsonRpcSigner } from 'ethers';
+import { numberToHex, type Chain, type EIP1193Provider } from 'viem';
+import { getActiveChain } from './activeDeployment';
+
+/**
+ * The provider of the wallet the user connected through WalletProvider
+ * Lets non-React modules (nftService, fheEncryption, messageVault) reach the chosen wallet
+ * instead of assuming window.ethereum.
+ */
+
+/**
+ * Thrown when an action needs a wallet but none is connected
+ */
+export class WalletNotConnectedError extends Error {
+  constructor() {
+    super('Wallet not connected');
+    this.name = 'WalletNotConnectedError';
+  }
+}
+
+/**
+ * Thrown when the wallet is connected to a different chain than the app's
+ */
+export class WrongNetworkError extends Error {
+  readonly expectedChainId: number;
+  readonly actualChainId: number;
+
+  constructor(expectedChainId: number, actualChainId: number) {
+    super(`Wallet is on chain ${actualChainId}, please switch to ${getActiveChain().name} (chain ${expectedChainId})`);
+    this.name = 'WrongNetworkError';
+    this.expectedChainId = expectedChainId;
+    this.actualChainId = actualChainId;
+  }
+}
+
+// EIP-1193 / EIP-3085 error code for a chain the wallet does not know yet
+const UNRECOGNIZED_CHAIN_ERROR = 4902;
+
+let activeProvider: EIP1193Provider | null = null;
+let walletChainId: number | null = null;
+let browserProvider: BrowserProvider | null = null;
+
+/**
+ * Set (or clear) the provider of the connected wallet and the chain it is on
+ */
+export function setActiveProvider(provider: EIP1193Provider | null, chainId: number | null = null): void {
+  walletChainId = provider ? chainId : null;
+  if (provider === activeProvider) {
+    return;
+  }
+  activeProvider = provider;
+  browserProvider = null;
+}
+
+/**
+ * Record a chain switch reported by the connected wallet
+ */
+export function setWalletChainId(chainId: number): void {
+  walletChainId = chainId;
+}
+
+/**
+ * Provider of the connected wallet when it is on the active deployment's chain
+ * @returns null when no wallet is connected or it is on another chain
+ */
+export function getActiveChainProvider(): EIP1193Provider | null {
+  return activeProvider && walletChainId === getActiveChain().id ? activeProvider : null;
+}
+
+/**
+ * EIP-1193 provider of the connected wallet
+ * @throws WalletNotConnectedError when no wallet is connected
+ */
+export function getEthereumProvider(): EIP1193Provider {
+  if (!activeProvider) {
+    throw new WalletNotConnectedError();
+  }
+  return activeProvider;
+}
+
+/**
+ * Ethers provider wrapping the connected wallet, cached until the wallet changes
+ */
+export function getBrowserProvider(): BrowserProvider {
+  if (!browserProvider) {
+    // "any" network: the user may switch chains while the app is open
+    browserProvider = new BrowserProvider(getEthereumProvider(), 'any');
+  }
+  return browserProvider;
+}
+
+/**
+ * Ethers signer for the connected account (or a specific one of its accounts)
+ */
+export function getSigner(address?: string): Promise<JsonRpcSigner> {
+  return getBrowserProvider().getSigner(address);
+}
+
+/**
+ * Check that the connected wallet is on the active deployment's chain
+ * @throws WrongNetworkError when it is on another chain
+ */
+export async function ensureActiveChain(): Promise<void> {
+  const expected = getActiveChain().id;
+  const chainId = Number(await getEthereumProvider().request({ method: 'eth_chainId' }));
+  if (chainId !== expected) {
+    throw new WrongNetworkError(expected, chainId);
+  }
+}
+
+/**
+ * Ask the wallet to switch to a chain, adding it first if the wallet does not know it
+ */
+export async function switchChain(provider: EIP1193Provider, chain: Chain = getActiveChain()): Promise<void> {
+  const chainId = numberToHex(chain.id);
+  try {
+    await provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+  } catch (error) {
+    // MetaMask mobile nests the code in data.originalError
+    const { code, data } = error as { code?: number; data?: { originalError?: { code?: number } } };
+    if (code !== UNRECOGNIZED_CHAIN_ERROR && data?.originalError?.code !== UNRECOGNIZED_CHAIN_ERROR) {
+      throw error;
+    }
+
+    await provider.request({
+      method: 'wallet_addEthereumChain',
+      params: [{
+        chainId,
+        chainName: chain.name,
+        nativeCurrency: chain.nativeCurrency,
+        rpcUrls: [...chain.rpcUrls.default.http],
+        blockExplorerUrls: chain.blockExplorers ? [chain.blockExplorers.default.url] : undefined,
+      }],
+    });
+  }
+}
@@ -0,0 +1,71 @@
+import type { EIP1193Provider } from 'viem';
+
+/**
+ * EIP-6963 multi injected provider discovery
+ * Wallets announce themselves through window events instead of racing for window.ethereum.
+ */
+
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  /** Data URI of the wallet icon */
+  icon: string;
+  /** Reverse-DNS identifier, stable across sessions (e.g. io.metamask) */
+  rdns: string;
+}
+
+export interface DiscoveredWallet {
+  info: WalletInfo;
+  provider: EIP1193Provider;
+}
+
+interface AnnounceProviderEvent extends CustomEvent<DiscoveredWallet> {
+  type: 'eip6963:announceProvider';
+}
+
+// Wallets that only inject window.ethereum show up under this id
+export const LEGACY_INJECTED_RDNS = 'injected';
+
+/**
+ * Listen for wallet announcements and ask installed wallets to announce
+ * @returns Function that stops listening
+ */
+export function watchWallets(onAnnounce: (wallet: DiscoveredWallet) => void): () => void {
+  const handleAnnounce = (event: Event) => {
+    const { info, provider } = (event as AnnounceProviderEvent).detail;
+    onAnnounce({ info, provider });
+  };
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+
+  return () => window.removeEventListener('eip6963:announceProvider', handleAnnounce);
+}
+
+/**
+ * Wrap a bare window.ethereum for wallets that do not implement EIP-6963
+ */
+export function getLegacyInjectedWallet(): DiscoveredWallet | null {
+  if (typeof window === 'undefined' || !window.ethereum) {
+    return null;
+  }
+  return {
+    info: { uuid: LEGACY_INJECTED_RDNS, name: 'Browser wallet', icon: '', rdns: LEGACY_INJECTED_RDNS },
+    provider: window.ethereum,
+  };
+}
+
+/**
+ * Announce a provider to the page, as an injected wallet extension would
+ * @returns Function that stops answering discovery requests
+ */
+export function announceWallet(wallet: DiscoveredWallet): () => void {
+  const announce = () => {
+    window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: Object.freeze({ ...wallet }) }));
+  };
+
+  window.addEventListener('eip6963:requestProvider', announce);
+  announce();
+
+  return () => window.removeEventListener('eip6963:requestProvider', announce);
+}
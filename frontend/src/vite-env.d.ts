@@ -1 +1,36 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_STORAGE_PROVIDER?: 'pinata' | 'kubo' | 'data-uri';
+  readonly VITE_PINATA_JWT?: string;
+  readonly VITE_PINATA_API_KEY?: string;
+  readonly VITE_PINATA_API_SECRET?: string;
+  readonly VITE_PINATA_GATEWAY?: string;
+  readonly VITE_KUBO_API_URL?: string;
+  readonly VITE_KUBO_GATEWAY?: string;
+  readonly VITE_IPFS_GATEWAYS?: string;
+  readonly VITE_IPFS_GATEWAY_STRATEGY?: 'race' | 'fallback';
+  readonly VITE_IPFS_VERIFY_CID?: string;
+  readonly VITE_IMAGE_MAX_DIMENSION?: string;
+  readonly VITE_IMAGE_FORMAT?: 'image/webp' | 'image/jpeg';
+  readonly VITE_IMAGE_ONCHAIN_TARGET_BYTES?: string;
+  readonly VITE_DEFAULT_DEPLOYMENT?: string;
+  readonly VITE_CONTRACT_ADDRESS?: string;
+  readonly VITE_STAGING_CONTRACT_ADDRESS?: string;
+  readonly VITE_LEGACY_DEPLOYMENT?: string;
+  readonly VITE_SEPOLIA_RPC_URL?: string;
+  readonly VITE_MAINNET_RPC_URL?: string;
+  readonly VITE_MOCK_RPC_URL?: string;
+  readonly VITE_MOCK_CHAIN_ID?: string;
+  readonly VITE_MOCK_CONTRACT_ADDRESS?: string;
+  readonly VITE_MOCK_ACCOUNT_INDEX?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// Legacy injected provider, used only for wallets without EIP-6963 support
+interface Window {
+  ethereum?: import('viem').EIP1193Provider;
+}
@@ -0,0 +1,162 @@
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/web';
+import type {
+  EncryptInput,
+  FheInitConfig,
+  FheInitStage,
+  FheRequestMessage,
+  FheResults,
+  FheWorkerMessage,
+  Hex,
+} from './fheProtocol';
+
+/**
+ * Dedicated worker owning the FHEVM instance
+ * WASM initialization, input proofs and decryption run here so the UI thread stays responsive.
+ */
+
+let instance: FhevmInstance | null = null;
+// Bumped by init and reset so a slow, superseded init cannot install its instance
+let generation = 0;
+
+// Throwaway user-decrypt keypairs by public key
+const keypairs = new Map<string, string>();
+
+function post(message: FheWorkerMessage): void {
+  self.postMessage(message);
+}
+
+function progress(stage: FheInitStage, value: number): void {
+  post({ kind: 'progress', stage, progress: value });
+}
+
+function toHex(bytes: Uint8Array): Hex {
+  return `0x${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function requireInstance(): FhevmInstance {
+  if (!instance) {
+    throw new Error('FHE worker is not initialized');
+  }
+  return instance;
+}
+
+async function loadRelayerSdk() {
+  // The web build assigns window.TFHE / window.TKMS at import time
+  if (typeof window === 'undefined') {
+    Object.assign(globalThis, { window: globalThis });
+  }
+  return import('@zama-fhe/relayer-sdk/web');
+}
+
+function install(next: FhevmInstance, current: number): void {
+  if (current !== generation) {
+    throw new Error('FHE initialization was superseded');
+  }
+  instance = next;
+}
+
+async function init(config: FheInitConfig): Promise<void> {
+  instance = null;
+  const current = ++generation;
+
+  if (config.mode === 'mock') {
+    const { createMockInstance } = await import('../utils/mockFhevm');
+    install(createMockInstance(config), current);
+    progress('ready', 1);
+    return;
+  }
+
+  progress('wasm', 0.1);
+  const { initSDK, createInstance } = await loadRelayerSdk();
+  await initSDK();
+
+  // createInstance downloads the network public key and CRS
+  progress('keys', 0.5);
+  install(await createInstance(config.instance), current);
+  progress('ready', 1);
+}
+
+async function encrypt(contractAddress: string, userAddress: string, inputs: EncryptInput[]) {
+  const builder = requireInstance().createEncryptedInput(contractAddress, userAddress);
+  for (const input of inputs) {
+    switch (input.type) {
+      case 'bool':
+        builder.addBool(input.value);
+        break;
+      case 'uint8':
+        builder.add8(input.value);
+        break;
+      case 'uint16':
+        builder.add16(input.value);
+        break;
+      case 'uint32':
+        builder.add32(input.value);
+        break;
+      case 'uint64':
+        builder.add64(input.value);
+        break;
+      case 'uint128':
+        builder.add128(input.value);
+        break;
+      case 'uint256':
+        builder.add256(input.value);
+        break;
+      case 'address':
+        builder.addAddress(input.value);
+        break;
+    }
+  }
+
+  const encrypted = await builder.encrypt();
+  return { handles: encrypted.handles.map(toHex), inputProof: toHex(encrypted.inputProof) };
+}
+
+async function handle(request: FheRequestMessage): Promise<FheResults[FheRequestMessage['type']]> {
+  switch (request.type) {
+    case 'init':
+      return init(request.config);
+    case 'reset':
+      instance = null;
+      generation++;
+      keypairs.clear();
+      return;
+    case 'encrypt':
+      return encrypt(request.contractAddress, request.userAddress, request.inputs);
+    case 'createUserDecryptRequest': {
+      const fhevm = requireInstance();
+      const { publicKey, privateKey } = fhevm.generateKeypair();
+      keypairs.set(publicKey, privateKey);
+      const eip712 = fhevm.createEIP712(publicKey, request.contractAddresses, request.startTimestamp, request.durationDays);
+      return { publicKey, eip712 };
+    }
+    case 'userDecrypt': {
+      const privateKey = keypairs.get(request.publicKey);
+      if (!privateKey) {
+        throw new Error('Unknown user-decrypt keypair, create a new request');
+      }
+      keypairs.delete(request.publicKey);
+      return requireInstance().userDecrypt(
+        request.handles,
+        privateKey,
+        request.publicKey,
+        request.signature,
+        request.contractAddresses,
+        request.userAddress,
+        request.startTimestamp,
+        request.durationDays
+      );
+    }
+    case 'publicDecrypt':
+      return requireInstance().publicDecrypt(request.handles);
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<FheRequestMessage>) => {
+  const request = event.data;
+  handle(request)
+    .then(result => post({ kind: 'result', id: request.id, result }))
+    .catch((error: unknown) => {
+      const { name, message } = error instanceof Error ? error : new Error(String(error));
+      post({ kind: 'error', id: request.id, error: { name, message } });
+    });
+});
@@ -0,0 +1,70 @@
+import type { ClearValues, EIP712, FhevmInstanceConfig, PublicDecryptResults } from '@zama-fhe/relayer-sdk/web';
+
+/**
+ * Message protocol between the main thread and the FHE worker
+ * Every request carries an id; the worker answers with a result or an error for
+ * that id, and streams progress events while initializing.
+ */
+
+export type Hex = `0x${string}`;
+
+export type FheInitConfig =
+  | { mode: 'relayer'; instance: FhevmInstanceConfig }
+  | { mode: 'mock'; aclContractAddress: string; chainId: number; rpcUrl: string };
+
+/** One plaintext to encrypt, typed like the matching add* call of the input builder */
+export type EncryptInput =
+  | { type: 'bool'; value: boolean }
+  | { type: 'uint8' | 'uint16' | 'uint32' | 'uint64' | 'uint128' | 'uint256'; value: bigint }
+  | { type: 'address'; value: string };
+
+export interface EncryptResult {
+  handles: Hex[];
+  inputProof: Hex;
+}
+
+export interface UserDecryptRequest {
+  /** Public half of a keypair held by the worker; the private key never leaves it */
+  publicKey: string;
+  eip712: EIP712;
+}
+
+export type FheRequest =
+  | { type: 'init'; config: FheInitConfig }
+  | { type: 'reset' }
+  | { type: 'encrypt'; contractAddress: string; userAddress: string; inputs: EncryptInput[] }
+  | { type: 'createUserDecryptRequest'; contractAddresses: string[]; startTimestamp: number; durationDays: number }
+  | {
+      type: 'userDecrypt';
+      handles: { handle: string; contractAddress: string }[];
+      publicKey: string;
+      signature: string;
+      contractAddresses: string[];
+      userAddress: string;
+      startTimestamp: number;
+      durationDays: number;
+    }
+  | { type: 'publicDecrypt'; handles: string[] };
+
+export interface FheResults {
+  init: void;
+  reset: void;
+  encrypt: EncryptResult;
+  createUserDecryptRequest: UserDecryptRequest;
+  userDecrypt: ClearValues;
+  publicDecrypt: PublicDecryptResults;
+}
+
+export type FheInitStage = 'wasm' | 'keys' | 'ready';
+
+export interface SerializedError {
+  name: string;
+  message: string;
+}
+
+export type FheRequestMessage = FheRequest & { id: number };
+
+export type FheWorkerMessage =
+  | { kind: 'result'; id: number; result: FheResults[FheRequest['type']] }
+  | { kind: 'error'; id: number; error: SerializedError }
+  | { kind: 'progress'; stage: FheInitStage; progress: number };
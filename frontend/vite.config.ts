@@ -24,4 +24,8 @@ export default defineConfig({
     },
   },
   assetsInclude: ['**/*.wasm'],
+  // The FHE worker dynamically imports the relayer SDK, which needs ES module workers
+  worker: {
+    format: 'es',
+  },
 })